@@ -0,0 +1,143 @@
+import { Assets, AssetsManifest, UnresolvedAsset } from 'pixi.js';
+
+// Asset bundles per scene, scenes list the bundles they need in their definition
+export const ASSET_MANIFEST: AssetsManifest = {
+  bundles: [
+    {
+      name: 'ace',
+      assets: [{ alias: 'card', src: './assets/card.png' }]
+    },
+    {
+      name: 'phoenix',
+      assets: [
+        { alias: 'particle', src: './assets/particle.png' },
+        { alias: 'particleBase', src: './assets/particle_base.png' },
+        { alias: 'particleSmall', src: './assets/particle_small.png' }
+      ]
+    }
+  ]
+};
+
+export type LoadProgressListener = (progress: number) => void;
+
+const loadedBundles = new Set<string>();
+// Bundles registered by addRuntimeBundle, with their aliases and the scene that uses them
+const runtimeBundles = new Map<string, { aliases: string[]; sceneId: string }>();
+const progressListeners = new Set<LoadProgressListener>();
+
+export async function initAssets() {
+  await Assets.init({ manifest: ASSET_MANIFEST });
+}
+
+function notifyProgress(progress: number) {
+  progressListeners.forEach(listener => listener(progress));
+}
+
+// Subscribe to the progress of the current foreground load
+export function onLoadProgress(listener: LoadProgressListener): () => void {
+  progressListeners.add(listener);
+  return () => progressListeners.delete(listener);
+}
+
+// Aliases of a manifest bundle
+function getBundleAliases(name: string): string[] {
+  const bundle = ASSET_MANIFEST.bundles.find(b => b.name === name);
+  if (!bundle) return [];
+  const assets = Array.isArray(bundle.assets) ? bundle.assets : Object.values(bundle.assets);
+  return assets.flatMap(asset => {
+    const alias = (asset as UnresolvedAsset).alias;
+    return Array.isArray(alias) ? alias : alias ? [alias] : [];
+  });
+}
+
+// Background loads finish into Assets.cache without going through loadBundles
+export function isBundleLoaded(name: string): boolean {
+  if (loadedBundles.has(name)) return true;
+  const aliases = getBundleAliases(name);
+  return aliases.length > 0 && aliases.every(alias => Assets.cache.has(alias));
+}
+
+export function areBundlesLoaded(names: string[]): boolean {
+  return names.every(isBundleLoaded);
+}
+
+// Load bundles in the foreground, reporting progress to the loading scene
+export async function loadBundles(names: string[]) {
+  const missing = names.filter(name => !isBundleLoaded(name));
+  if (missing.length === 0) return;
+
+  notifyProgress(0);
+  await Assets.loadBundle(missing, notifyProgress);
+  missing.forEach(name => loadedBundles.add(name));
+  notifyProgress(1);
+}
+
+// Load the next likely bundles while the user is busy with something else
+export function preloadBundles(names: string[]) {
+  const missing = names.filter(name => !isBundleLoaded(name));
+  if (missing.length > 0) {
+    Assets.backgroundLoadBundle(missing);
+  }
+}
+
+// Unload a runtime bundle before its scene is gone, the sweep then leaves it alone
+export async function unloadRuntimeBundle(name: string) {
+  if (!runtimeBundles.delete(name)) return;
+  try {
+    await Assets.unloadBundle(name);
+  } catch (e) {
+    console.warn(`Failed to unload bundle "${name}":`, e);
+  }
+}
+
+// Runtime bundles of the given scenes
+export function getRuntimeBundles(sceneIds: string[]): string[] {
+  return [...runtimeBundles].filter(([, bundle]) => sceneIds.includes(bundle.sceneId)).map(([name]) => name);
+}
+
+// Runtime bundle assets are loaded one by one and may partly fail, any cached one counts
+function isRuntimeBundleLoaded(name: string): boolean {
+  return runtimeBundles.get(name)?.aliases.some(alias => Assets.cache.has(alias)) ?? false;
+}
+
+// Unload every loaded bundle that is not in the keep list, runtime bundles included
+export async function unloadBundlesExcept(keep: string[]) {
+  const unused = [
+    ...ASSET_MANIFEST.bundles.map(bundle => bundle.name).filter(isBundleLoaded),
+    ...[...runtimeBundles.keys()].filter(isRuntimeBundleLoaded)
+  ].filter(name => !keep.includes(name));
+
+  for (const name of unused) {
+    loadedBundles.delete(name);
+    runtimeBundles.delete(name);
+    try {
+      await Assets.unloadBundle(name);
+    } catch (e) {
+      console.warn(`Failed to unload bundle "${name}":`, e);
+    }
+  }
+}
+
+// Simple string hash for stable bundle names
+function hashString(text: string): string {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
+// Register a bundle built at runtime (e.g. from API data) for a scene, returns its name.
+// The same assets always map to the same bundle so the resolver is not flooded. The bundle
+// is unloaded with the other unused bundles once its scene is gone.
+export function addRuntimeBundle(sceneId: string, prefix: string, assets: Record<string, string>): string {
+  const entries = Object.entries(assets).sort(([a], [b]) => a.localeCompare(b));
+  const name = `${prefix}-${hashString(JSON.stringify(entries))}`;
+
+  if (!Assets.resolver.hasBundle(name)) {
+    // Remote URLs often have no file extension, so the parser is explicit
+    Assets.addBundle(name, entries.map(([alias, src]) => ({ alias, src, parser: 'texture' })));
+  }
+  runtimeBundles.set(name, { aliases: entries.map(([alias]) => alias), sceneId });
+  return name;
+}
@@ -0,0 +1,148 @@
+import * as PIXI from 'pixi.js';
+import { makeFocusable } from './input';
+import { Viewport } from './layout';
+import { createScrollPanel } from './scrollPanel';
+
+const MAX_WIDTH = 680;
+const MARGIN_X = 30;
+const MARGIN_Y = 70;
+const PADDING = 16;
+const HEADER_HEIGHT = 48;
+const ROW_GAP = 14;
+
+export interface BacklogPanelOptions {
+  // A row was clicked while rewinding is on
+  onSelect: (index: number) => void;
+  // Rewinding on click starts switched on
+  rewind?: boolean;
+}
+
+// Small header button growing to the right of its position, focusable like the scene buttons
+function createHeaderButton(text: string, action: () => void) {
+  const button = new PIXI.Container();
+  const label = new PIXI.Text({ text, style: { fontSize: 14, fill: '#ffffff' } });
+  label.anchor.set(0, 0.5);
+  label.x = 12;
+  const bg = new PIXI.Graphics();
+  button.addChild(bg, label);
+  button.eventMode = 'static';
+  button.cursor = 'pointer';
+  button.on('pointerdown', (event) => {
+    event.stopPropagation();
+    action();
+  });
+  makeFocusable(button, action);
+
+  function setText(next: string) {
+    label.text = next;
+    const width = label.width + 24;
+    bg.clear().roundRect(0, -14, width, 28, 6).fill(0x333333);
+  }
+  setText(text);
+  return { button, setText };
+}
+
+// Dialogue history over a dimmed scene: the rows are built by the scene, the panel stacks
+// them in a scrollable list that opens at the newest one
+export function createBacklogPanel({ onSelect, rewind = false }: BacklogPanelOptions) {
+  const container = new PIXI.Container();
+  container.visible = false;
+
+  // Clicks beside the panel close it instead of reaching the scene
+  const dim = new PIXI.Graphics();
+  dim.eventMode = 'static';
+  dim.on('pointerdown', (event) => {
+    event.stopPropagation();
+    panel.hide();
+  });
+  container.addChild(dim);
+
+  const frame = new PIXI.Container();
+  frame.eventMode = 'static';
+  frame.on('pointerdown', (event) => event.stopPropagation());
+  container.addChild(frame);
+
+  const background = new PIXI.Graphics();
+  frame.addChild(background);
+
+  const title = new PIXI.Text({ text: 'History', style: { fontSize: 18, fill: '#ffffff', fontWeight: 'bold' } });
+  title.position.set(PADDING, 14);
+  frame.addChild(title);
+
+  let rewinding = rewind;
+  const rewindLabel = () => `Click a line to go back: ${rewinding ? 'on' : 'off'}`;
+  const rewindButton = createHeaderButton(rewindLabel(), () => {
+    rewinding = !rewinding;
+    rewindButton.setText(rewindLabel());
+  });
+  const closeButton = createHeaderButton('Close', () => panel.hide());
+  frame.addChild(rewindButton.button, closeButton.button);
+
+  // Top and bottom of every row in content space, to find the one that was clicked
+  let rowBounds: { top: number; bottom: number }[] = [];
+  const list = createScrollPanel(0, 0, contentY => {
+    if (!rewinding) return;
+    const index = rowBounds.findIndex(row => contentY >= row.top && contentY < row.bottom);
+    if (index >= 0) onSelect(index);
+  });
+  list.container.position.set(PADDING, HEADER_HEIGHT);
+  frame.addChild(list.container);
+
+  let width = 0;
+  let height = 0;
+
+  const panel = {
+    container,
+
+    get isOpen() {
+      return container.visible;
+    },
+
+    // Room a row may take, rows are built to this width
+    get rowWidth() {
+      return width - PADDING * 2;
+    },
+
+    // Fit the panel into the visible area of the screen
+    layout(viewport: Viewport) {
+      width = Math.min(MAX_WIDTH, viewport.width - MARGIN_X * 2);
+      height = Math.max(HEADER_HEIGHT * 2, viewport.height - MARGIN_Y * 2);
+      dim.clear().rect(viewport.x, viewport.y, viewport.width, viewport.height).fill({ color: 0x000000, alpha: 0.6 });
+      frame.position.set(viewport.x + (viewport.width - width) / 2, viewport.y + MARGIN_Y);
+      background.clear().roundRect(0, 0, width, height, 10).fill({ color: 0x1a1a1a, alpha: 0.95 });
+      rewindButton.button.position.set(title.x + title.width + 20, HEADER_HEIGHT / 2);
+      closeButton.button.position.set(width - PADDING - closeButton.button.width, HEADER_HEIGHT / 2);
+      list.resize(width - PADDING * 2, height - HEADER_HEIGHT - PADDING);
+    },
+
+    // Show the rows, oldest first, scrolled to the newest
+    show(rows: PIXI.Container[]) {
+      list.content.removeChildren().forEach(row => row.destroy({ children: true }));
+      rowBounds = [];
+      let y = 0;
+      rows.forEach(row => {
+        row.y = y;
+        list.content.addChild(row);
+        rowBounds.push({ top: y, bottom: y + row.height + ROW_GAP });
+        y += row.height + ROW_GAP;
+      });
+      list.setContentHeight(Math.max(0, y - ROW_GAP));
+      list.scrollToEnd();
+      container.visible = true;
+    },
+
+    hide() {
+      container.visible = false;
+      list.content.removeChildren().forEach(row => row.destroy({ children: true }));
+      rowBounds = [];
+    },
+
+    update(deltaMs: number) {
+      if (container.visible) list.update(deltaMs);
+    }
+  };
+
+  return panel;
+}
+
+export type BacklogPanel = ReturnType<typeof createBacklogPanel>;
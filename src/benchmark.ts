@@ -0,0 +1,97 @@
+import { summarizeFrameTimes } from './perfStats';
+
+// Ramp benchmark: show a count, measure frame times, grow the count until frames
+// take longer than the budget.
+
+export interface RampBenchmarkOptions {
+  startCount: number;
+  maxCount: number;
+  // Count grows by this factor after every step that stayed within budget
+  growth?: number;
+  // Average frame time above this ends the run, 20ms is 50 FPS
+  frameBudgetMs?: number;
+  // Length of one step, the first settleMs are not measured while new objects settle
+  stepMs?: number;
+  settleMs?: number;
+}
+
+export interface BenchmarkStep {
+  count: number;
+  avgFrameMs: number;
+  // FPS of the slowest 1% of frames
+  low1Fps: number;
+}
+
+export interface BenchmarkResult {
+  // Highest count that stayed within budget, 0 when even the start count was too slow
+  maxCount: number;
+  reason: 'degraded' | 'max-count';
+  steps: BenchmarkStep[];
+}
+
+export function createRampBenchmark(options: RampBenchmarkOptions) {
+  const growth = Math.max(1.01, options.growth ?? 1.25);
+  const frameBudgetMs = options.frameBudgetMs ?? 20;
+  const stepMs = options.stepMs ?? 2000;
+  const settleMs = Math.min(options.settleMs ?? 500, stepMs);
+
+  let count = Math.max(1, Math.min(options.maxCount, Math.round(options.startCount)));
+  let stepElapsed = 0;
+  let samples: number[] = [];
+  const steps: BenchmarkStep[] = [];
+  let result: BenchmarkResult | null = null;
+
+  function finish(reason: BenchmarkResult['reason']) {
+    const passed = steps.filter(step => step.avgFrameMs <= frameBudgetMs);
+    result = {
+      maxCount: passed.length > 0 ? passed[passed.length - 1].count : 0,
+      reason,
+      steps: [...steps]
+    };
+  }
+
+  return {
+    get count() {
+      return count;
+    },
+
+    get isDone() {
+      return result !== null;
+    },
+
+    get result(): BenchmarkResult | null {
+      return result;
+    },
+
+    get steps(): readonly BenchmarkStep[] {
+      return steps;
+    },
+
+    // Feed the time of one frame, returns the count to show from now on
+    addFrame(frameMs: number): number {
+      if (result) return count;
+
+      stepElapsed += frameMs;
+      if (stepElapsed > settleMs) {
+        samples.push(frameMs);
+      }
+      if (stepElapsed < stepMs) return count;
+
+      const stats = summarizeFrameTimes(samples);
+      steps.push({ count, avgFrameMs: stats.avg, low1Fps: stats.low1 });
+      stepElapsed = 0;
+      samples = [];
+
+      if (stats.avg > frameBudgetMs) {
+        finish('degraded');
+      } else if (count >= options.maxCount) {
+        finish('max-count');
+      } else {
+        count = Math.min(options.maxCount, Math.ceil(count * growth));
+      }
+      return count;
+    }
+  };
+}
+
+export type RampBenchmark = ReturnType<typeof createRampBenchmark>;
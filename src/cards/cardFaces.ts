@@ -0,0 +1,123 @@
+import * as PIXI from 'pixi.js';
+import { CardFace, RANKS, STANDARD_DECK, SUIT_SYMBOLS, isRed } from './playingCards';
+
+// Atlas pixels are capped so all 52 faces fit in one texture on every GPU
+const MAX_ATLAS_SIZE = 2048;
+
+// Draw one card face with its top-left corner at 0,0
+function createFaceGraphic(face: CardFace, width: number, height: number): PIXI.Container {
+  const container = new PIXI.Container();
+  const color = isRed(face.suit) ? '#c62828' : '#1a1a1a';
+  const symbol = SUIT_SYMBOLS[face.suit];
+  const corner = width * 0.06;
+
+  const background = new PIXI.Graphics();
+  background
+    .roundRect(2, 2, width - 4, height - 4, width * 0.07)
+    .fill(0xfdfdf8)
+    .stroke({ width: 4, color: 0x9e9e9e });
+  container.addChild(background);
+
+  const cornerStyle = new PIXI.TextStyle({
+    fontFamily: 'Arial',
+    fontSize: width * 0.14,
+    fontWeight: 'bold',
+    fill: color,
+    align: 'center',
+    lineHeight: width * 0.14
+  });
+
+  // Rank and suit in the top-left corner, repeated upside down in the bottom-right one
+  const topIndex = new PIXI.Text({ text: `${face.rank}\n${symbol}`, style: cornerStyle });
+  topIndex.x = corner;
+  topIndex.y = corner;
+  container.addChild(topIndex);
+
+  const bottomIndex = new PIXI.Text({ text: `${face.rank}\n${symbol}`, style: cornerStyle });
+  bottomIndex.rotation = Math.PI;
+  bottomIndex.x = width - corner;
+  bottomIndex.y = height - corner;
+  container.addChild(bottomIndex);
+
+  // Court cards show their letter in the middle, the others a large suit
+  const isCourt = face.rank === 'J' || face.rank === 'Q' || face.rank === 'K';
+  const center = new PIXI.Text({
+    text: isCourt ? `${face.rank}${symbol}` : symbol,
+    style: { fontFamily: 'Arial', fontSize: width * (isCourt ? 0.3 : 0.45), fill: color }
+  });
+  center.anchor.set(0.5);
+  center.x = width / 2;
+  center.y = height / 2;
+  container.addChild(center);
+
+  return container;
+}
+
+// 52 card faces rendered once into a single texture, one frame per face.
+// With a back texture the back gets a frame in an extra row, so batched renderers
+// that need one texture source can show both sides.
+export function createCardFaceAtlas(app: PIXI.Application, cardWidth: number, cardHeight: number, back?: PIXI.Texture) {
+  const columns = RANKS.length;
+  const faceRows = STANDARD_DECK.length / columns;
+  const rows = back ? faceRows + 1 : faceRows;
+  const sheet = new PIXI.Container();
+
+  STANDARD_DECK.forEach(face => {
+    const graphic = createFaceGraphic(face, cardWidth, cardHeight);
+    graphic.x = (face.index % columns) * cardWidth;
+    graphic.y = Math.floor(face.index / columns) * cardHeight;
+    sheet.addChild(graphic);
+  });
+
+  if (back) {
+    const backSprite = new PIXI.Sprite(back);
+    backSprite.width = cardWidth;
+    backSprite.height = cardHeight;
+    backSprite.y = faceRows * cardHeight;
+    sheet.addChild(backSprite);
+  }
+
+  // Frames keep the card size in points while the atlas stays within the pixel cap
+  const resolution = Math.min(1, MAX_ATLAS_SIZE / (columns * cardWidth), MAX_ATLAS_SIZE / (rows * cardHeight));
+  const atlas = app.renderer.generateTexture({
+    target: sheet,
+    frame: new PIXI.Rectangle(0, 0, columns * cardWidth, rows * cardHeight),
+    resolution,
+    antialias: true
+  });
+  sheet.destroy({ children: true });
+
+  const textures = STANDARD_DECK.map(face => new PIXI.Texture({
+    source: atlas.source,
+    frame: new PIXI.Rectangle(
+      (face.index % columns) * cardWidth,
+      Math.floor(face.index / columns) * cardHeight,
+      cardWidth,
+      cardHeight
+    )
+  }));
+
+  const backTexture = back
+    ? new PIXI.Texture({ source: atlas.source, frame: new PIXI.Rectangle(0, faceRows * cardHeight, cardWidth, cardHeight) })
+    : null;
+
+  return {
+    getTexture(face: CardFace): PIXI.Texture {
+      return textures[face.index];
+    },
+
+    // Only set when the atlas was created with a back texture
+    backTexture,
+
+    // Whole sheet, e.g. as the shared texture of a ParticleContainer
+    texture: atlas,
+
+    destroy() {
+      textures.forEach(texture => texture.destroy());
+      backTexture?.destroy();
+      atlas.destroy(true);
+    }
+  };
+}
+
+export type CardFaceAtlas = ReturnType<typeof createCardFaceAtlas>;
@@ -0,0 +1,115 @@
+import { easings } from '../tweens';
+
+// Where the cards of one pile lie. Slots are relative to the pile origin and depend on the
+// card count, so a fan closes up and a spread narrows as cards come and go.
+
+// stack: the diagonal stack, fan: an arc of cards around a point below the pile,
+// spread: a horizontal row, grid: rows and columns
+export type CardLayoutMode = 'stack' | 'fan' | 'spread' | 'grid';
+
+export const CARD_LAYOUT_MODES: CardLayoutMode[] = ['stack', 'fan', 'spread', 'grid'];
+
+export interface CardSlot {
+  x: number;
+  y: number;
+  rotation: number;
+}
+
+// Slot of the card at index, 0 is the bottom card, of a pile holding count cards
+export type CardSlotLayout = (index: number, count: number) => CardSlot;
+
+export interface CardLayoutOptions {
+  // Size of one card as shown
+  cardWidth: number;
+  cardHeight: number;
+  // Room the whole pile may take, centered on the pile origin
+  maxWidth: number;
+  maxHeight: number;
+  // Offset between stacked cards, stack only
+  stackOffset?: { x: number; y: number };
+}
+
+// A fan opens by this angle per card up to the widest angle, around a point this many
+// card heights below the pile
+const FAN_STEP = 0.05;
+const FAN_MAX_ANGLE = Math.PI * 0.6;
+const FAN_RADIUS = 1.6;
+// Neighbours in a spread and a grid show this share of the card below
+const SPREAD_STEP = 0.3;
+const GRID_GAP = 1.08;
+
+// Step between count cards so they fit into a length, at most the preferred step
+function fitStep(count: number, preferred: number, cardSize: number, length: number): number {
+  if (count < 2) return 0;
+  return Math.max(0, Math.min(preferred, (length - cardSize) / (count - 1)));
+}
+
+export function createCardLayout(mode: CardLayoutMode, options: CardLayoutOptions): CardSlotLayout {
+  const { cardWidth, cardHeight, maxWidth, maxHeight } = options;
+
+  switch (mode) {
+    case 'stack': {
+      const offset = options.stackOffset ?? { x: 0, y: 0 };
+      return index => ({ x: index * offset.x, y: index * offset.y, rotation: 0 });
+    }
+
+    case 'fan':
+      return (index, count) => {
+        if (count < 2) return { x: 0, y: 0, rotation: 0 };
+        const spread = Math.min(FAN_MAX_ANGLE, FAN_STEP * (count - 1));
+        // Tighter circle when the fan would be wider than the room
+        const radius = Math.min(cardHeight * FAN_RADIUS, Math.max(0, maxWidth - cardWidth) / (2 * Math.sin(spread / 2)));
+        const angle = spread * (index / (count - 1) - 0.5);
+        // Outer cards sink, the middle of the arc sits on the origin
+        const sink = radius * (1 - Math.cos(spread / 2));
+        return {
+          x: Math.sin(angle) * radius,
+          y: radius * (1 - Math.cos(angle)) - sink / 2,
+          rotation: angle
+        };
+      };
+
+    case 'spread':
+      return (index, count) => {
+        const step = fitStep(count, cardWidth * SPREAD_STEP, cardWidth, maxWidth);
+        return { x: (index - (count - 1) / 2) * step, y: 0, rotation: 0 };
+      };
+
+    case 'grid':
+      return (index, count) => {
+        const columns = Math.max(1, Math.ceil(Math.sqrt(count)));
+        const rows = Math.max(1, Math.ceil(count / columns));
+        const stepX = fitStep(columns, cardWidth * GRID_GAP, cardWidth, maxWidth);
+        const stepY = fitStep(rows, cardHeight * GRID_GAP, cardHeight, maxHeight);
+        return {
+          x: ((index % columns) - (columns - 1) / 2) * stepX,
+          y: (Math.floor(index / columns) - (rows - 1) / 2) * stepY,
+          rotation: 0
+        };
+      };
+  }
+}
+
+// Slots on the way from one layout to another at a progress from 0 to 1. Cards set off one
+// after another from the bottom; stagger is the share of the time over which they set off,
+// 0 moves all cards together.
+export function blendCardLayouts(
+  from: CardSlotLayout,
+  to: CardSlotLayout,
+  progress: number,
+  stagger = 0.5
+): CardSlotLayout {
+  const share = Math.min(0.95, Math.max(0, stagger));
+  return (index, count) => {
+    const start = count > 1 ? share * (index / (count - 1)) : 0;
+    const local = Math.min(1, Math.max(0, (progress - start) / (1 - share)));
+    const t = easings.quadInOut(local);
+    const a = from(index, count);
+    const b = to(index, count);
+    return {
+      x: a.x + (b.x - a.x) * t,
+      y: a.y + (b.y - a.y) * t,
+      rotation: a.rotation + (b.rotation - a.rotation) * t
+    };
+  };
+}
@@ -0,0 +1,98 @@
+import * as PIXI from 'pixi.js';
+
+// particles: one ParticleContainer, every card is a lightweight Particle
+// sprites: pooled Sprites in a plain Container, for comparison
+export type CardRenderMode = 'particles' | 'sprites';
+
+export const CARD_RENDER_MODES: CardRenderMode[] = ['particles', 'sprites'];
+
+// Draws thousands of cards without a display object tree per pile. Every frame the
+// caller draws all cards bottom to top between begin and end; draw order is call order,
+// so cards are never reparented or z sorted.
+export interface CardRenderer {
+  readonly container: PIXI.Container;
+  begin(): void;
+  // x and y are the card center, a scaleX below scaleY squeezes the card for a flip
+  draw(texture: PIXI.Texture, x: number, y: number, scaleX: number, scaleY: number): void;
+  // Cards not drawn since begin are hidden
+  end(): void;
+}
+
+// All textures must come from the atlas texture's source
+export function createParticleCardRenderer(atlasTexture: PIXI.Texture): CardRenderer {
+  const container = new PIXI.ParticleContainer({
+    texture: atlasTexture,
+    // Cards move, flip and change sides every frame; tint and rotation never change
+    dynamicProperties: { position: true, vertex: true, uvs: true, rotation: false, color: false }
+  });
+  const particles = container.particleChildren as PIXI.Particle[];
+  let drawn = 0;
+
+  return {
+    container,
+
+    begin() {
+      drawn = 0;
+    },
+
+    draw(texture: PIXI.Texture, x: number, y: number, scaleX: number, scaleY: number) {
+      let particle = particles[drawn];
+      if (!particle) {
+        particle = new PIXI.Particle({ texture, anchorX: 0.5, anchorY: 0.5 });
+        container.addParticle(particle);
+      }
+      particle.texture = texture;
+      particle.x = x;
+      particle.y = y;
+      particle.scaleX = scaleX;
+      particle.scaleY = scaleY;
+      drawn++;
+    },
+
+    end() {
+      if (particles.length > drawn) {
+        container.removeParticles(drawn);
+      }
+    }
+  };
+}
+
+export function createSpriteCardRenderer(): CardRenderer {
+  const container = new PIXI.Container();
+  const sprites: PIXI.Sprite[] = [];
+  let drawn = 0;
+
+  return {
+    container,
+
+    begin() {
+      drawn = 0;
+    },
+
+    draw(texture: PIXI.Texture, x: number, y: number, scaleX: number, scaleY: number) {
+      let sprite = sprites[drawn];
+      if (!sprite) {
+        sprite = new PIXI.Sprite(texture);
+        sprite.anchor.set(0.5);
+        sprites.push(sprite);
+        container.addChild(sprite);
+      }
+      sprite.texture = texture;
+      sprite.visible = true;
+      sprite.position.set(x, y);
+      sprite.scale.set(scaleX, scaleY);
+      drawn++;
+    },
+
+    end() {
+      // Pooled sprites stay for the next frame
+      for (let i = drawn; i < sprites.length; i++) {
+        sprites[i].visible = false;
+      }
+    }
+  };
+}
+
+export function createCardRenderer(mode: CardRenderMode, atlasTexture: PIXI.Texture): CardRenderer {
+  return mode === 'particles' ? createParticleCardRenderer(atlasTexture) : createSpriteCardRenderer();
+}
@@ -0,0 +1,143 @@
+import * as PIXI from 'pixi.js';
+import { CardSlot, CardSlotLayout } from './cardLayout';
+
+// Pile of card display objects from bottom to top, each card offset from the one below
+// unless a slot layout such as a fan places them. Draw order follows pile order, so no
+// zIndex sorting is needed.
+export function createDeck<T extends PIXI.Container = PIXI.Sprite>(stackOffsetX = 0.6, stackOffsetY = stackOffsetX) {
+  const container = new PIXI.Container();
+  const cards: T[] = [];
+  // Cached so hit-testing the top card does not search the pile
+  let top: T | null = null;
+  const offset = { x: stackOffsetX, y: stackOffsetY };
+  const stacked: CardSlotLayout = index => ({ x: index * offset.x, y: index * offset.y, rotation: 0 });
+  let layout: CardSlotLayout | null = null;
+
+  function placeCard(card: T, index: number) {
+    const slot = (layout ?? stacked)(index, cards.length);
+    card.x = slot.x;
+    card.y = slot.y;
+    card.rotation = slot.rotation;
+  }
+
+  function restack(fromIndex = 0) {
+    // Slot layouts depend on the card count, so every card moves
+    for (let i = layout ? 0 : fromIndex; i < cards.length; i++) {
+      placeCard(cards[i], i);
+    }
+  }
+
+  // Slot of a pile index once the pile reaches it
+  function slotAt(index: number): CardSlot {
+    return (layout ?? stacked)(index, Math.max(cards.length, index + 1));
+  }
+
+  function updateTop() {
+    top = cards.length > 0 ? cards[cards.length - 1] : null;
+  }
+
+  return {
+    container,
+
+    get size() {
+      return cards.length;
+    },
+
+    get cards(): readonly T[] {
+      return cards;
+    },
+
+    get stackOffset(): Readonly<{ x: number; y: number }> {
+      return offset;
+    },
+
+    // Put a card on top of the pile
+    push(card: T) {
+      cards.push(card);
+      container.addChild(card);
+      restack(cards.length - 1);
+      top = card;
+    },
+
+    // Take the top card off the pile, it is removed from the deck container
+    pop(): T | null {
+      const card = cards.pop() ?? null;
+      if (card) {
+        container.removeChild(card);
+        if (layout) restack();
+        updateTop();
+      }
+      return card;
+    },
+
+    peek(): T | null {
+      return top;
+    },
+
+    // Insert a card at a pile position, 0 is the bottom, cards above move up
+    insertAt(card: T, index: number) {
+      const position = Math.max(0, Math.min(cards.length, Math.round(index)));
+      cards.splice(position, 0, card);
+      container.addChildAt(card, position);
+      restack(position);
+      updateTop();
+    },
+
+    // Remove a card wherever it is in the pile, cards above move down
+    remove(card: T): boolean {
+      const index = cards.indexOf(card);
+      if (index === -1) return false;
+      cards.splice(index, 1);
+      container.removeChild(card);
+      restack(index);
+      updateTop();
+      return true;
+    },
+
+    // Put the same cards in a new order, e.g. after a shuffle
+    reorder(order: readonly T[]) {
+      if (order.length !== cards.length || order.some(card => !cards.includes(card))) {
+        throw new Error('reorder needs exactly the cards of the deck');
+      }
+      cards.splice(0, cards.length, ...order);
+      cards.forEach((card, i) => container.setChildIndex(card, i));
+      restack();
+      updateTop();
+    },
+
+    // Local position of the card at a pile index, the next free slot by default
+    getStackPosition(index = cards.length): PIXI.Point {
+      const slot = slotAt(index);
+      return new PIXI.Point(slot.x, slot.y);
+    },
+
+    // Slot of a pile index once the pile reaches it, the next free slot by default
+    getSlot(index = cards.length): CardSlot {
+      return slotAt(index);
+    },
+
+    setStackOffset(x: number, y: number) {
+      offset.x = x;
+      offset.y = y;
+      restack();
+    },
+
+    // The layout in use, the diagonal stack unless one was set
+    get slotLayout(): CardSlotLayout {
+      return layout ?? stacked;
+    },
+
+    // Place the cards by a slot layout, null goes back to the stack offset
+    setSlotLayout(next: CardSlotLayout | null) {
+      layout = next;
+      restack();
+    },
+
+    // Snap every card to its slot, e.g. after animating cards out of place
+    restack() {
+      restack();
+    }
+  };
+}
+
+export type Deck<T extends PIXI.Container = PIXI.Sprite> = ReturnType<typeof createDeck<T>>;
@@ -0,0 +1,92 @@
+// Arrangement of card piles in an area
+
+// row: piles side by side, grid: rows and columns, tableau: a row along the top with cards fanned downwards
+export type PileLayoutMode = 'row' | 'grid' | 'tableau';
+
+export const PILE_LAYOUT_MODES: PileLayoutMode[] = ['row', 'grid', 'tableau'];
+
+export interface LayoutArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PileLayoutOptions {
+  // Size of one card at scale 1
+  cardWidth: number;
+  cardHeight: number;
+  // Most cards a single pile can hold, used to keep stacks inside the area
+  maxPileSize: number;
+  // Offset between stacked cards at scale 1
+  stackOffset: number;
+  // Space kept between piles and around the area edges
+  margin?: number;
+}
+
+export interface PileLayout {
+  // Position of the bottom card of every pile
+  positions: { x: number; y: number }[];
+  // Offset from one card to the next in a pile
+  stackOffset: { x: number; y: number };
+  // Card scale that fits the piles into the area, at most 1
+  scale: number;
+  // Room of one pile, e.g. for fanning its cards
+  cell: { width: number; height: number };
+}
+
+// Tableau piles never fan wider than this, even with few cards
+const MAX_TABLEAU_FAN = 24;
+
+export function computePileLayout(
+  mode: PileLayoutMode,
+  pileCount: number,
+  area: LayoutArea,
+  options: PileLayoutOptions
+): PileLayout {
+  const { cardWidth, cardHeight, maxPileSize } = options;
+  const margin = options.margin ?? 20;
+  const count = Math.max(1, pileCount);
+
+  const columns = mode === 'grid' ? Math.ceil(Math.sqrt(count)) : count;
+  const rows = Math.ceil(count / columns);
+  const cellWidth = area.width / columns;
+  const cellHeight = area.height / rows;
+
+  if (mode === 'tableau') {
+    const scale = Math.min(1, (cellWidth - margin) / cardWidth, (area.height - margin * 2) / (cardHeight * 2));
+    const top = area.y + margin + cardHeight * scale / 2;
+    // Spread the fullest possible pile over the free height below the first card
+    const freeHeight = area.y + area.height - margin - cardHeight * scale / 2 - top;
+    const fan = Math.min(MAX_TABLEAU_FAN * scale, freeHeight / Math.max(1, maxPileSize - 1));
+    return {
+      positions: Array.from({ length: pileCount }, (_, i) => ({
+        x: area.x + cellWidth * (i + 0.5),
+        y: top
+      })),
+      stackOffset: { x: 0, y: fan },
+      scale,
+      cell: { width: cellWidth, height: area.height }
+    };
+  }
+
+  const stackExtent = Math.max(0, maxPileSize - 1) * options.stackOffset;
+  const scale = Math.min(
+    1,
+    (cellWidth - margin) / (cardWidth + stackExtent),
+    (cellHeight - margin) / (cardHeight + stackExtent)
+  );
+  const offset = options.stackOffset * scale;
+  // Center the middle of a full stack in its cell
+  const shift = (stackExtent * scale) / 2;
+
+  return {
+    positions: Array.from({ length: pileCount }, (_, i) => ({
+      x: area.x + cellWidth * ((i % columns) + 0.5) - shift,
+      y: area.y + cellHeight * (Math.floor(i / columns) + 0.5) - shift
+    })),
+    stackOffset: { x: offset, y: offset },
+    scale,
+    cell: { width: cellWidth, height: cellHeight }
+  };
+}
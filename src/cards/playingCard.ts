@@ -0,0 +1,50 @@
+import * as PIXI from 'pixi.js';
+import { CardFace } from './playingCards';
+
+// Card sprite that keeps its identity while moving between decks
+export interface PlayingCard extends PIXI.Sprite {
+  readonly cardId: number;
+  readonly face: CardFace;
+  readonly faceUp: boolean;
+  setFaceUp(faceUp: boolean): void;
+  // Turn the card around its vertical axis, 0 shows the current side and 1 the other one.
+  // scale is the card's regular scale, the horizontal scale is squeezed during the turn.
+  setFlipProgress(progress: number, scale: number): void;
+}
+
+export function createPlayingCard(
+  cardId: number,
+  face: CardFace,
+  faceTexture: PIXI.Texture,
+  backTexture: PIXI.Texture,
+  faceUp = false
+): PlayingCard {
+  const sprite = new PIXI.Sprite(faceUp ? faceTexture : backTexture);
+  sprite.anchor.set(0.5);
+  let isFaceUp = faceUp;
+
+  function showSide(showFace: boolean) {
+    sprite.texture = showFace ? faceTexture : backTexture;
+  }
+
+  // Accessors are defined on the sprite itself, Object.assign would copy the getter's value
+  return Object.defineProperties(sprite, {
+    cardId: { value: cardId },
+    face: { value: face },
+    faceUp: { get: () => isFaceUp },
+    setFaceUp: {
+      value(value: boolean) {
+        isFaceUp = value;
+        showSide(value);
+      }
+    },
+    setFlipProgress: {
+      value(progress: number, scale: number) {
+        const t = Math.min(1, Math.max(0, progress));
+        // The other side shows once the card is edge-on
+        showSide(t < 0.5 ? isFaceUp : !isFaceUp);
+        sprite.scale.set(scale * Math.abs(Math.cos(t * Math.PI)), scale);
+      }
+    }
+  }) as PlayingCard;
+}
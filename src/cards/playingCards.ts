@@ -0,0 +1,46 @@
+// Identity of the 52 standard playing cards
+
+export type Suit = 'spades' | 'hearts' | 'diamonds' | 'clubs';
+export type Rank = 'A' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9' | '10' | 'J' | 'Q' | 'K';
+
+export const SUITS: Suit[] = ['spades', 'hearts', 'diamonds', 'clubs'];
+export const RANKS: Rank[] = ['A', '2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K'];
+
+export const SUIT_SYMBOLS: Record<Suit, string> = {
+  spades: '♠',
+  hearts: '♥',
+  diamonds: '♦',
+  clubs: '♣'
+};
+
+export interface CardFace {
+  rank: Rank;
+  suit: Suit;
+  // Position in STANDARD_DECK, also the atlas frame index
+  index: number;
+}
+
+// Suits in order, ace to king within each suit
+export const STANDARD_DECK: CardFace[] = SUITS.flatMap((suit, s) =>
+  RANKS.map((rank, r) => ({ rank, suit, index: s * RANKS.length + r }))
+);
+
+// Face of a card id, ids past 52 continue with another full deck
+export function faceForCard(cardId: number): CardFace {
+  const count = STANDARD_DECK.length;
+  return STANDARD_DECK[((cardId % count) + count) % count];
+}
+
+export function isRed(suit: Suit): boolean {
+  return suit === 'hearts' || suit === 'diamonds';
+}
+
+// Short label like "10♥"
+export function cardLabel(face: CardFace): string {
+  return `${face.rank}${SUIT_SYMBOLS[face.suit]}`;
+}
+
+// Value for games, ace low
+export function rankValue(rank: Rank): number {
+  return RANKS.indexOf(rank) + 1;
+}
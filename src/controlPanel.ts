@@ -0,0 +1,181 @@
+import * as PIXI from 'pixi.js';
+import { makeFocusable } from './input';
+
+export interface SliderOptions {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  value: number;
+  // Shown next to the label, the plain number by default
+  format?: (value: number) => string;
+  onChange: (value: number) => void;
+}
+
+export interface ToggleOptions {
+  label: string;
+  value: boolean;
+  onChange: (value: boolean) => void;
+}
+
+// Lets code move a control without calling its onChange
+export interface PanelControl<T> {
+  setValue(value: T): void;
+}
+
+const PANEL_WIDTH = 300;
+const ROW_HEIGHT = 46;
+const PADDING = 14;
+const TRACK_WIDTH = PANEL_WIDTH - PADDING * 2;
+const HEADER_HEIGHT = 44;
+
+// Panel of sliders and toggles that change values while a scene runs
+export function createControlPanel(title: string) {
+  const container = new PIXI.Container();
+  // Presses on the panel do not reach the scene underneath
+  container.eventMode = 'static';
+  container.on('pointerdown', (event) => event.stopPropagation());
+
+  const background = new PIXI.Graphics();
+  container.addChild(background);
+
+  const titleText = new PIXI.Text({ text: title, style: { fontSize: 18, fill: '#ffffff', fontWeight: 'bold' } });
+  titleText.x = PADDING;
+  titleText.y = 12;
+  container.addChild(titleText);
+
+  const labelStyle = new PIXI.TextStyle({ fontSize: 14, fill: '#dddddd' });
+  let rowCount = 0;
+
+  function addRow(): number {
+    const y = HEADER_HEIGHT + rowCount * ROW_HEIGHT;
+    rowCount++;
+    background.clear();
+    background
+      .roundRect(0, 0, PANEL_WIDTH, HEADER_HEIGHT + rowCount * ROW_HEIGHT + 6, 10)
+      .fill({ color: 0x1a1a1a, alpha: 0.9 });
+    return y;
+  }
+
+  function addLabels(label: string, y: number) {
+    const labelText = new PIXI.Text({ text: label, style: labelStyle });
+    labelText.x = PADDING;
+    labelText.y = y;
+    container.addChild(labelText);
+
+    const valueText = new PIXI.Text({ text: '', style: labelStyle });
+    valueText.anchor.set(1, 0);
+    valueText.x = PANEL_WIDTH - PADDING;
+    valueText.y = y;
+    container.addChild(valueText);
+    return valueText;
+  }
+
+  return {
+    container,
+
+    get width() {
+      return PANEL_WIDTH;
+    },
+
+    addSlider(options: SliderOptions): PanelControl<number> {
+      const { min, max, step } = options;
+      const format = options.format ?? ((value: number) => String(value));
+      const y = addRow();
+      const valueText = addLabels(options.label, y);
+
+      const track = new PIXI.Container();
+      track.x = PADDING;
+      track.y = y + 30;
+      track.eventMode = 'static';
+      track.cursor = 'pointer';
+      track.hitArea = new PIXI.Rectangle(-8, -10, TRACK_WIDTH + 16, 20);
+      container.addChild(track);
+
+      const line = new PIXI.Graphics();
+      line.roundRect(0, -2, TRACK_WIDTH, 4, 2).fill(0x555555);
+      track.addChild(line);
+      const thumb = new PIXI.Graphics();
+      thumb.circle(0, 0, 7).fill(0xffd54f);
+      track.addChild(thumb);
+
+      let value = options.value;
+      let dragging = false;
+
+      // Snap to the step grid, rounding keeps values like 0.1 free of float noise
+      const snap = (raw: number) => {
+        const snapped = min + Math.round((raw - min) / step) * step;
+        return Number(Math.min(max, Math.max(min, snapped)).toFixed(6));
+      };
+
+      function render() {
+        valueText.text = format(value);
+        thumb.x = max > min ? ((value - min) / (max - min)) * TRACK_WIDTH : 0;
+      }
+
+      function setFromPointer(global: PIXI.Point) {
+        const share = Math.min(1, Math.max(0, track.toLocal(global).x / TRACK_WIDTH));
+        const next = snap(min + share * (max - min));
+        if (next === value) return;
+        value = next;
+        render();
+        options.onChange(value);
+      }
+
+      track.on('pointerdown', (event) => {
+        dragging = true;
+        setFromPointer(event.global);
+      });
+      track.on('globalpointermove', (event) => {
+        if (dragging) setFromPointer(event.global);
+      });
+      track.on('pointerup', () => (dragging = false));
+      track.on('pointerupoutside', () => (dragging = false));
+
+      render();
+      return {
+        setValue(next: number) {
+          value = snap(next);
+          render();
+        }
+      };
+    },
+
+    addToggle(options: ToggleOptions): PanelControl<boolean> {
+      const y = addRow();
+      const valueText = addLabels(options.label, y + 6);
+      let value = options.value;
+
+      // The whole row toggles
+      const row = new PIXI.Container();
+      row.eventMode = 'static';
+      row.cursor = 'pointer';
+      row.hitArea = new PIXI.Rectangle(0, y, PANEL_WIDTH, ROW_HEIGHT);
+      // Invisible fill gives the focus ring the row's bounds
+      row.addChild(new PIXI.Graphics().rect(4, y, PANEL_WIDTH - 8, ROW_HEIGHT - 6).fill({ color: 0xffffff, alpha: 0 }));
+      container.addChildAt(row, 1);
+
+      function render() {
+        valueText.text = value ? 'On' : 'Off';
+      }
+
+      const toggle = () => {
+        value = !value;
+        render();
+        options.onChange(value);
+      };
+      row.on('pointerdown', toggle);
+      makeFocusable(row, toggle);
+
+      render();
+      return {
+        setValue(next: boolean) {
+          value = next;
+          render();
+        }
+      };
+    }
+  };
+}
+
+export type ControlPanel = ReturnType<typeof createControlPanel>;
@@ -0,0 +1,184 @@
+import * as PIXI from 'pixi.js';
+
+// Pseudo-3D look for a sprite flying along an arc: it rises toward the camera at the apex,
+// tips along its path through a perspective mesh and casts a soft shadow that falls behind
+// with height. The sprite itself keeps being moved by its tween and is hidden meanwhile.
+
+// flat: the plain 2D arc, 3d: the flight effect
+export type FlightLook = 'flat' | '3d';
+
+export const FLIGHT_LOOKS: FlightLook[] = ['flat', '3d'];
+
+export interface FlightEffectOptions {
+  // Extra scale at the apex, 0.25 shows the card a quarter larger
+  lift?: number;
+  // Largest tilt along the path in radians, while rising and falling fastest
+  tilt?: number;
+  // Largest turn in the screen plane in radians, toward the direction of travel
+  roll?: number;
+  // Distance of the eye from the screen plane, smaller looks more dramatic
+  perspective?: number;
+  // Shadow offset at the apex, it lies under the card at either end of the flight
+  shadowX?: number;
+  shadowY?: number;
+  shadowAlpha?: number;
+  // Blur strength, 0 keeps a hard shadow without a filter
+  shadowBlur?: number;
+}
+
+const DEFAULTS: Required<FlightEffectOptions> = {
+  lift: 0.25,
+  tilt: 0.5,
+  roll: 0.15,
+  perspective: 600,
+  shadowX: 14,
+  shadowY: 24,
+  shadowAlpha: 0.35,
+  shadowBlur: 6
+};
+
+export interface FlightPose {
+  // 0 on the ground, 1 at the apex
+  height: number;
+  scale: number;
+  // Tilt around the axis across the path, positive lifts the leading edge
+  tilt: number;
+  roll: number;
+  shadowX: number;
+  shadowY: number;
+  shadowAlpha: number;
+}
+
+// Pose at a share of the flight, direction is the travel direction on screen
+export function computeFlightPose(
+  progress: number,
+  directionX: number,
+  directionY: number,
+  options: FlightEffectOptions = {}
+): FlightPose {
+  const o = { ...DEFAULTS, ...options };
+  const t = Math.min(1, Math.max(0, progress));
+  const height = Math.sin(t * Math.PI);
+  const length = Math.hypot(directionX, directionY);
+  const side = length > 0 ? directionX / length : 0;
+  return {
+    height,
+    scale: 1 + o.lift * height,
+    // The nose points up on the way up and down on the way down
+    tilt: o.tilt * Math.cos(t * Math.PI),
+    roll: o.roll * height * side,
+    shadowX: o.shadowX * height,
+    shadowY: o.shadowY * height,
+    // The shadow fades as the card rises
+    shadowAlpha: o.shadowAlpha * (1 - 0.5 * height)
+  };
+}
+
+// x0, y0 to x3, y3
+export type QuadCorners = [number, number, number, number, number, number, number, number];
+
+// Corners of a width x height rectangle centered on 0, tilted by an angle around the axis
+// across a direction and projected onto the screen. Clockwise from top-left, as
+// PerspectiveMesh.setCorners takes them.
+export function projectTiltedCorners(
+  width: number,
+  height: number,
+  tilt: number,
+  directionX: number,
+  directionY: number,
+  perspective: number
+): QuadCorners {
+  const length = Math.hypot(directionX, directionY);
+  const dx = length > 0 ? directionX / length : 1;
+  const dy = length > 0 ? directionY / length : 0;
+  const cos = Math.cos(tilt);
+  const sin = Math.sin(tilt);
+  const corners = [[-width / 2, -height / 2], [width / 2, -height / 2], [width / 2, height / 2], [-width / 2, height / 2]];
+
+  return corners.flatMap(([x, y]) => {
+    // Distance along the path shortens, the leading edge comes toward the eye
+    const along = x * dx + y * dy;
+    const shortened = along * cos - along;
+    const z = along * sin;
+    const factor = perspective / Math.max(1, perspective - z);
+    return [(x + shortened * dx) * factor, (y + shortened * dy) * factor];
+  }) as QuadCorners;
+}
+
+export interface FlightEffect {
+  // Show the sprite at a share of its flight, call after the tween moved the sprite
+  update(progress: number): void;
+  // Remove the mesh and shadow and show the plain sprite again
+  destroy(): void;
+}
+
+// Effects share one shadow blur, so a scene creates one of these and applies it per flight
+export function createFlightEffects(options: FlightEffectOptions = {}) {
+  const o = { ...DEFAULTS, ...options };
+  const blur = o.shadowBlur > 0 ? new PIXI.BlurFilter({ strength: o.shadowBlur }) : null;
+
+  return {
+    // from and to give the travel direction, e.g. the start and end of the arc
+    apply(target: PIXI.Sprite, from: PIXI.PointData, to: PIXI.PointData): FlightEffect {
+      const directionX = to.x - from.x;
+      const directionY = to.y - from.y;
+      const mesh = new PIXI.PerspectiveMesh({ texture: target.texture, verticesX: 8, verticesY: 8 });
+      const shadow = new PIXI.Sprite(target.texture);
+      shadow.tint = 0x000000;
+      if (blur) shadow.filters = [blur];
+      let active = true;
+
+      // Shadow right below the sprite, mesh right above it
+      function attach() {
+        const parent = target.parent;
+        if (!parent || (mesh.parent === parent && shadow.parent === parent)) return;
+        const index = parent.getChildIndex(target);
+        parent.addChildAt(shadow, index);
+        parent.addChildAt(mesh, index + 2);
+      }
+
+      return {
+        update(progress: number) {
+          if (!active || target.destroyed) return;
+          attach();
+          target.visible = false;
+          const pose = computeFlightPose(progress, directionX, directionY, o);
+
+          // The sprite's own scale carries squeezes like a card flip
+          const width = target.texture.width * Math.abs(target.scale.x) * pose.scale;
+          const height = target.texture.height * Math.abs(target.scale.y) * pose.scale;
+          mesh.texture = target.texture;
+          mesh.setCorners(...projectTiltedCorners(width, height, pose.tilt, directionX, directionY, o.perspective));
+          // Corners are centered, the sprite's anchor is not necessarily
+          mesh.position.set(
+            target.x + (0.5 - target.anchor.x) * target.texture.width * target.scale.x,
+            target.y + (0.5 - target.anchor.y) * target.texture.height * target.scale.y
+          );
+          mesh.rotation = target.rotation + pose.roll;
+
+          shadow.texture = target.texture;
+          shadow.anchor.copyFrom(target.anchor);
+          shadow.scale.copyFrom(target.scale);
+          shadow.rotation = target.rotation;
+          shadow.position.set(target.x + pose.shadowX, target.y + pose.shadowY);
+          shadow.alpha = pose.shadowAlpha;
+        },
+
+        destroy() {
+          if (!active) return;
+          active = false;
+          // Both may already be gone with a destroyed scene
+          if (!mesh.destroyed) mesh.destroy();
+          if (!shadow.destroyed) shadow.destroy();
+          if (!target.destroyed) target.visible = true;
+        }
+      };
+    },
+
+    destroy() {
+      blur?.destroy();
+    }
+  };
+}
+
+export type FlightEffects = ReturnType<typeof createFlightEffects>;
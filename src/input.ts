@@ -0,0 +1,202 @@
+import * as PIXI from 'pixi.js';
+import { FocusDirection, InputCommand, createGamepadReader, keyCommand, pickFocus } from './inputCommands';
+import { getRegisteredScenes } from './scenes/sceneRegistry';
+
+// Activation callbacks of focusable buttons
+const focusables = new WeakMap<PIXI.Container, () => void>();
+
+// Let keyboard and gamepad reach a button, activate should match its pointer handler
+export function makeFocusable(target: PIXI.Container, activate: () => void) {
+  focusables.set(target, activate);
+}
+
+export interface InputManagerOptions {
+  // Root container of the scene that currently receives input
+  getActiveContainer: () => PIXI.Container | null;
+  // Input is ignored while this returns true, e.g. during transitions
+  isBlocked: () => boolean;
+  switchToScene: (id: string) => void;
+  // Closes the top overlay, e.g. pause or settings
+  popScene: () => void;
+  // An overlay lies on top of a base scene
+  hasOverlay: () => boolean;
+  getCurrentSceneId: () => string | null;
+  // Injectable for tests, defaults to navigator.getGamepads
+  getGamepads?: () => (Gamepad | null)[];
+}
+
+// Focusable buttons of a container in display order
+function collectFocusables(container: PIXI.Container, result: PIXI.Container[] = []): PIXI.Container[] {
+  for (const child of container.children) {
+    if (child.destroyed || !child.visible) continue;
+    if (focusables.has(child)) {
+      result.push(child);
+    }
+    collectFocusables(child, result);
+  }
+  return result;
+}
+
+function centerOf(target: PIXI.Container): PIXI.Point {
+  const bounds = target.getBounds();
+  return new PIXI.Point(bounds.x + bounds.width / 2, bounds.y + bounds.height / 2);
+}
+
+// Nearest candidate in the given direction, in screen space
+function findInDirection(
+  from: PIXI.Container,
+  candidates: PIXI.Container[],
+  direction: 'up' | 'down' | 'left' | 'right'
+): PIXI.Container | null {
+  const origin = centerOf(from);
+  let best: PIXI.Container | null = null;
+  let bestScore = Infinity;
+
+  for (const candidate of candidates) {
+    if (candidate === from) continue;
+    const point = centerOf(candidate);
+    const dx = point.x - origin.x;
+    const dy = point.y - origin.y;
+    const primary = direction === 'left' ? -dx : direction === 'right' ? dx : direction === 'up' ? -dy : dy;
+    const secondary = direction === 'left' || direction === 'right' ? Math.abs(dy) : Math.abs(dx);
+    if (primary <= 0) continue;
+
+    // Prefer candidates that are straight ahead over ones that are off to the side
+    const score = primary + secondary * 2;
+    if (score < bestScore) {
+      bestScore = score;
+      best = candidate;
+    }
+  }
+  return best;
+}
+
+export function createInputManager(app: PIXI.Application, options: InputManagerOptions) {
+  const getGamepads = options.getGamepads ?? (() => (navigator.getGamepads ? Array.from(navigator.getGamepads()) : []));
+
+  const focusRing = new PIXI.Graphics();
+  focusRing.visible = false;
+  app.stage.addChild(focusRing);
+
+  let focused: PIXI.Container | null = null;
+  let focusContainer: PIXI.Container | null = null;
+  const gamepadReader = createGamepadReader();
+
+  function getFocusables(): PIXI.Container[] {
+    const container = options.getActiveContainer();
+    return container && !container.destroyed ? collectFocusables(container) : [];
+  }
+
+  function setFocus(target: PIXI.Container | null) {
+    focused = target;
+    focusContainer = options.getActiveContainer();
+    updateFocusRing();
+  }
+
+  function updateFocusRing() {
+    // Drop focus when its scene is gone or was replaced
+    if (focused && (focused.destroyed || !focused.visible || focusContainer !== options.getActiveContainer())) {
+      focused = null;
+    }
+
+    focusRing.visible = !!focused;
+    if (!focused) return;
+
+    const bounds = focused.getBounds();
+    focusRing.clear();
+    focusRing
+      .roundRect(bounds.x - 4, bounds.y - 4, bounds.width + 8, bounds.height + 8, 10)
+      .stroke({ width: 3, color: 0xffd54f });
+    // Keep the ring above scenes and transition overlays
+    if (app.stage.children[app.stage.children.length - 1] !== focusRing) {
+      app.stage.addChild(focusRing);
+    }
+  }
+
+  function moveFocus(direction: FocusDirection) {
+    if (options.isBlocked()) return;
+
+    const candidates = getFocusables();
+    const next = pickFocus(candidates, focused, direction, (from, towards) => findInDirection(from, candidates, towards));
+    if (next) {
+      setFocus(next);
+    }
+  }
+
+  function activateFocused() {
+    if (options.isBlocked() || !focused) return;
+    if (!getFocusables().includes(focused)) return;
+
+    const activate = focusables.get(focused);
+    activate?.();
+  }
+
+  // Number keys open menu entries in their listed order
+  function jumpToScene(position: number) {
+    const definition = getRegisteredScenes().filter(d => d.label)[position - 1];
+    if (definition && definition.id !== options.getCurrentSceneId()) {
+      options.switchToScene(definition.id);
+    }
+  }
+
+  function runCommand(command: InputCommand) {
+    switch (command.type) {
+      case 'move':
+        moveFocus(command.direction);
+        break;
+      case 'activate':
+        activateFocused();
+        break;
+      // Close the overlay first, only a base scene goes back to the menu
+      case 'back':
+        if (options.isBlocked()) break;
+        if (options.hasOverlay()) {
+          options.popScene();
+        } else if (options.getCurrentSceneId() !== 'menu') {
+          options.switchToScene('menu');
+        }
+        break;
+      case 'jump':
+        if (!options.isBlocked()) jumpToScene(command.position);
+        break;
+    }
+  }
+
+  function onKeyDown(event: KeyboardEvent) {
+    const command = keyCommand(event);
+    if (!command) return;
+    // Keep Tab, arrows and Space from moving the page
+    if (command.type === 'move' || command.type === 'activate') event.preventDefault();
+    runCommand(command);
+  }
+
+  // Poll connected gamepads, reacting only to newly pressed buttons
+  function pollGamepads() {
+    gamepadReader.poll(getGamepads()).forEach(runCommand);
+  }
+
+  const inputTicker = () => {
+    pollGamepads();
+    updateFocusRing();
+  };
+
+  // Pointer users do not need the ring
+  const onPointerDown = () => setFocus(null);
+
+  window.addEventListener('keydown', onKeyDown);
+  app.canvas.addEventListener('pointerdown', onPointerDown);
+  app.ticker.add(inputTicker);
+
+  return {
+    moveFocus,
+    activateFocused,
+    pollGamepads,
+    getFocused: () => focused,
+    destroy() {
+      window.removeEventListener('keydown', onKeyDown);
+      app.canvas.removeEventListener('pointerdown', onPointerDown);
+      app.ticker.remove(inputTicker);
+      focusRing.destroy();
+    }
+  };
+}
@@ -0,0 +1,97 @@
+// What keys and gamepad buttons ask for, apart from the buttons on screen they act on
+
+export type FocusDirection = 'up' | 'down' | 'left' | 'right' | 'next' | 'previous';
+
+// move: focus the next button, activate: press the focused one, back: leave the scene or
+// overlay, jump: open the menu entry at a position counted from 1
+export type InputCommand =
+  | { type: 'move'; direction: FocusDirection }
+  | { type: 'activate' }
+  | { type: 'back' }
+  | { type: 'jump'; position: number };
+
+// Standard gamepad mapping button indices
+const GAMEPAD_A = 0;
+const GAMEPAD_DPAD: { [button: number]: FocusDirection } = {
+  12: 'up',
+  13: 'down',
+  14: 'left',
+  15: 'right'
+};
+
+const KEY_DIRECTIONS: { [key: string]: FocusDirection } = {
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  ArrowLeft: 'left',
+  ArrowRight: 'right'
+};
+
+// Command for a key press, null for keys without one. Held Enter and Space do not repeat.
+export function keyCommand(event: Pick<KeyboardEvent, 'key' | 'shiftKey' | 'repeat'>): InputCommand | null {
+  const direction = KEY_DIRECTIONS[event.key];
+  if (direction) return { type: 'move', direction };
+
+  switch (event.key) {
+    case 'Tab':
+      return { type: 'move', direction: event.shiftKey ? 'previous' : 'next' };
+    case 'Enter':
+    case ' ':
+      return event.repeat ? null : { type: 'activate' };
+    case 'Escape':
+      return { type: 'back' };
+    default:
+      return /^[1-9]$/.test(event.key) ? { type: 'jump', position: Number(event.key) } : null;
+  }
+}
+
+// The parts of a Gamepad that are read
+export interface GamepadState {
+  index: number;
+  buttons: readonly { pressed: boolean }[];
+}
+
+// Turns polled gamepad states into commands, a held button counts once when it goes down
+export function createGamepadReader() {
+  // Buttons held on the previous poll, per gamepad
+  const previousButtons: { [index: number]: boolean[] } = {};
+
+  return {
+    poll(gamepads: readonly (GamepadState | null)[]): InputCommand[] {
+      const commands: InputCommand[] = [];
+      for (const gamepad of gamepads) {
+        if (!gamepad) continue;
+
+        const pressed = gamepad.buttons.map(button => button.pressed);
+        const previous = previousButtons[gamepad.index] ?? [];
+        previousButtons[gamepad.index] = pressed;
+
+        pressed.forEach((isPressed, button) => {
+          if (!isPressed || previous[button]) return;
+          if (button === GAMEPAD_A) {
+            commands.push({ type: 'activate' });
+          } else if (GAMEPAD_DPAD[button]) {
+            commands.push({ type: 'move', direction: GAMEPAD_DPAD[button] });
+          }
+        });
+      }
+      return commands;
+    }
+  };
+}
+
+// Button to focus next. Without a focused button the first one gets focus; next and
+// previous wrap around in display order, arrows ask findInDirection for the nearest one.
+export function pickFocus<T>(
+  candidates: readonly T[],
+  focused: T | null,
+  direction: FocusDirection,
+  findInDirection: (from: T, direction: 'up' | 'down' | 'left' | 'right') => T | null
+): T | null {
+  if (candidates.length === 0) return null;
+  const index = focused === null ? -1 : candidates.indexOf(focused);
+  if (focused === null || index === -1) return candidates[0];
+
+  if (direction === 'next') return candidates[(index + 1) % candidates.length];
+  if (direction === 'previous') return candidates[(index - 1 + candidates.length) % candidates.length];
+  return findInDirection(focused, direction);
+}
@@ -0,0 +1,80 @@
+import * as PIXI from 'pixi.js';
+import { SchemaIssue } from './simulation/magicWordsSchema';
+
+const PANEL_WIDTH = 480;
+const PADDING = 14;
+const HEADER_HEIGHT = 40;
+// Longer lists are cut off, the console has all of them
+const MAX_SHOWN = 12;
+
+const SEVERITY_COLORS: Record<SchemaIssue['severity'], string> = {
+  error: '#ff6b6b',
+  warning: '#ffd54f'
+};
+
+// Developer panel listing problems in loaded data, one row per issue with its JSON path
+export function createIssuePanel() {
+  const container = new PIXI.Container();
+  // Presses on the panel do not reach the scene underneath
+  container.eventMode = 'static';
+  container.on('pointerdown', (event) => event.stopPropagation());
+
+  const background = new PIXI.Graphics();
+  container.addChild(background);
+
+  const titleText = new PIXI.Text({ text: '', style: { fontSize: 16, fill: '#ffffff', fontWeight: 'bold' } });
+  titleText.x = PADDING;
+  titleText.y = 12;
+  container.addChild(titleText);
+
+  const rows = new PIXI.Container();
+  rows.x = PADDING;
+  rows.y = HEADER_HEIGHT;
+  container.addChild(rows);
+
+  return {
+    container,
+
+    get width() {
+      return PANEL_WIDTH;
+    },
+
+    setIssues(title: string, issues: readonly SchemaIssue[]) {
+      titleText.text = title;
+      rows.removeChildren().forEach(row => row.destroy());
+
+      let y = 0;
+      const shown = issues.slice(0, MAX_SHOWN);
+      shown.forEach(issue => {
+        const row = new PIXI.Text({
+          text: `${issue.path}  ${issue.message}`,
+          style: {
+            fontSize: 13,
+            fill: SEVERITY_COLORS[issue.severity],
+            fontFamily: 'monospace',
+            wordWrap: true,
+            breakWords: true,
+            wordWrapWidth: PANEL_WIDTH - PADDING * 2
+          }
+        });
+        row.y = y;
+        rows.addChild(row);
+        y += row.height + 4;
+      });
+      if (issues.length > shown.length) {
+        const more = new PIXI.Text({
+          text: `and ${issues.length - shown.length} more, see the console`,
+          style: { fontSize: 13, fill: '#aaaaaa', fontStyle: 'italic' }
+        });
+        more.y = y;
+        rows.addChild(more);
+        y += more.height + 4;
+      }
+
+      background.clear();
+      background.roundRect(0, 0, PANEL_WIDTH, HEADER_HEIGHT + y + 10, 10).fill({ color: 0x1a1a1a, alpha: 0.92 });
+    }
+  };
+}
+
+export type IssuePanel = ReturnType<typeof createIssuePanel>;
@@ -0,0 +1,156 @@
+import * as PIXI from 'pixi.js';
+
+// letterbox: whole design area visible, bars outside it
+// fit: whole design area visible, extra screen space stays usable
+// fill: design area covers the screen, edges may be cropped
+export type ScaleMode = 'letterbox' | 'fit' | 'fill';
+
+export type Anchor =
+  | 'top-left'
+  | 'top'
+  | 'top-right'
+  | 'left'
+  | 'center'
+  | 'right'
+  | 'bottom-left'
+  | 'bottom'
+  | 'bottom-right';
+
+// Visible screen area in design coordinates
+export interface Viewport {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type ResizeHandler = (layout: Layout) => void;
+
+export interface Layout {
+  readonly designWidth: number;
+  readonly designHeight: number;
+  // Scenes are added here, it carries the design-to-screen scale
+  readonly root: PIXI.Container;
+  readonly scale: number;
+  readonly viewport: Viewport;
+  readonly scaleMode: ScaleMode;
+  setScaleMode(mode: ScaleMode): void;
+  // Point of the visible area in design coordinates
+  getAnchor(anchor: Anchor): PIXI.Point;
+  // Calls handler now and on every resize until owner is destroyed
+  onResize(owner: PIXI.Container, handler: ResizeHandler): () => void;
+  // Keep a display object at an anchor of the visible area
+  pin(target: PIXI.Container, anchor: Anchor, offsetX?: number, offsetY?: number): () => void;
+}
+
+export function createLayout(
+  app: PIXI.Application,
+  designWidth = 1280,
+  designHeight = 720,
+  initialMode: ScaleMode = 'fit'
+): Layout {
+  const root = new PIXI.Container();
+  app.stage.addChild(root);
+
+  // Hides everything outside the design area in letterbox mode
+  const letterboxMask = new PIXI.Graphics();
+  letterboxMask.rect(0, 0, designWidth, designHeight).fill(0xffffff);
+
+  const handlers = new Set<ResizeHandler>();
+  let scaleMode = initialMode;
+  let scale = 1;
+  const viewport: Viewport = { x: 0, y: 0, width: designWidth, height: designHeight };
+
+  function update() {
+    const screenWidth = app.renderer.width;
+    const screenHeight = app.renderer.height;
+    const scaleX = screenWidth / designWidth;
+    const scaleY = screenHeight / designHeight;
+    scale = scaleMode === 'fill' ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+
+    // Center the design area on screen
+    root.scale.set(scale);
+    root.x = (screenWidth - designWidth * scale) / 2;
+    root.y = (screenHeight - designHeight * scale) / 2;
+
+    if (scaleMode === 'letterbox') {
+      viewport.x = 0;
+      viewport.y = 0;
+      viewport.width = designWidth;
+      viewport.height = designHeight;
+      if (!letterboxMask.parent) root.addChild(letterboxMask);
+      root.mask = letterboxMask;
+    } else {
+      viewport.x = -root.x / scale;
+      viewport.y = -root.y / scale;
+      viewport.width = screenWidth / scale;
+      viewport.height = screenHeight / scale;
+      root.mask = null;
+      if (letterboxMask.parent) root.removeChild(letterboxMask);
+    }
+
+    // Copy so handlers can unsubscribe while being notified
+    Array.from(handlers).forEach(handler => {
+      try {
+        handler(layout);
+      } catch (e) {
+        console.warn('Error in resize handler:', e);
+      }
+    });
+  }
+
+  const layout: Layout = {
+    designWidth,
+    designHeight,
+    root,
+    get scale() {
+      return scale;
+    },
+    get viewport() {
+      return viewport;
+    },
+    get scaleMode() {
+      return scaleMode;
+    },
+
+    setScaleMode(mode: ScaleMode) {
+      if (mode === scaleMode) return;
+      scaleMode = mode;
+      update();
+    },
+
+    getAnchor(anchor: Anchor): PIXI.Point {
+      const horizontal = anchor.endsWith('left') ? 0 : anchor.endsWith('right') ? 1 : 0.5;
+      const vertical = anchor.startsWith('top') ? 0 : anchor.startsWith('bottom') ? 1 : 0.5;
+      return new PIXI.Point(
+        viewport.x + viewport.width * horizontal,
+        viewport.y + viewport.height * vertical
+      );
+    },
+
+    onResize(owner: PIXI.Container, handler: ResizeHandler) {
+      const unsubscribe = () => {
+        handlers.delete(handler);
+        owner.off('destroyed', unsubscribe);
+      };
+      handlers.add(handler);
+      owner.once('destroyed', unsubscribe);
+      handler(layout);
+      return unsubscribe;
+    },
+
+    pin(target: PIXI.Container, anchor: Anchor, offsetX = 0, offsetY = 0) {
+      return layout.onResize(target, () => {
+        const point = layout.getAnchor(anchor);
+        target.x = point.x + offsetX;
+        target.y = point.y + offsetY;
+      });
+    }
+  };
+
+  // Renderer emits resize after resizeTo has applied the new window size
+  app.renderer.on('resize', update);
+  update();
+
+  return layout;
+}
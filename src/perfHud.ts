@@ -0,0 +1,211 @@
+import * as PIXI from 'pixi.js';
+import { getTickerTimings, summarizeFrameTimes } from './perfStats';
+
+export type PerfHudMode = 'compact' | 'expanded';
+
+export interface PerfHudOptions {
+  visible?: boolean;
+  mode?: PerfHudMode;
+  // Key that shows and hides the HUD, with Shift it switches the mode
+  hotkey?: string;
+  // Called when the hotkey shows or hides the HUD
+  onVisibleChange?: (visible: boolean) => void;
+}
+
+// Frames kept for the graph and the statistics
+const SAMPLE_COUNT = 240;
+const GRAPH_HEIGHT = 60;
+// Graph scale, frames slower than this are clipped
+const GRAPH_MAX_MS = 50;
+const TEXT_INTERVAL_MS = 250;
+const PADDING = 6;
+
+// Count display objects below a container, skipping the HUD itself
+function countDisplayObjects(container: PIXI.Container, skip: PIXI.Container): number {
+  let count = 0;
+  for (const child of container.children) {
+    if (child === skip) continue;
+    count += 1 + countDisplayObjects(child, skip);
+  }
+  return count;
+}
+
+// Rough GPU memory of uploaded textures, 4 bytes per pixel plus a third for mipmaps
+function estimateTextureMemory(app: PIXI.Application): { count: number; bytes: number } {
+  const sources = app.renderer.texture.managedTextures;
+  let bytes = 0;
+  sources.forEach(source => {
+    const pixels = source.pixelWidth * source.pixelHeight * 4;
+    bytes += source.autoGenerateMipmaps ? pixels * 4 / 3 : pixels;
+  });
+  return { count: sources.length, bytes };
+}
+
+// Performance overlay in screen space: frame times, scene size and per-ticker cost.
+// Create it after the layout so it stays above the scenes.
+export function createPerfHud(app: PIXI.Application, options: PerfHudOptions = {}) {
+  const hotkey = options.hotkey ?? 'F3';
+  let mode: PerfHudMode = options.mode ?? 'compact';
+
+  const hud = new PIXI.Container();
+  hud.x = 10;
+  hud.y = 10;
+  hud.visible = options.visible ?? true;
+  hud.eventMode = 'static';
+  hud.cursor = 'pointer';
+  app.stage.addChild(hud);
+
+  const background = new PIXI.Graphics();
+  hud.addChild(background);
+
+  const graph = new PIXI.Graphics();
+  graph.x = PADDING;
+  graph.y = PADDING;
+  hud.addChild(graph);
+
+  const text = new PIXI.Text({
+    text: 'FPS: --',
+    style: {
+      fontSize: 12,
+      fill: '#00ff00',
+      fontFamily: 'monospace',
+      lineHeight: 15
+    }
+  });
+  text.x = PADDING;
+  hud.addChild(text);
+
+  const frameTimes: number[] = [];
+  let textTimer = TEXT_INTERVAL_MS;
+
+  function drawGraph() {
+    graph.clear();
+    graph.rect(0, 0, SAMPLE_COUNT, GRAPH_HEIGHT).fill({ color: 0x000000, alpha: 0.4 });
+
+    // Reference lines at 60 and 30 FPS
+    [1000 / 60, 1000 / 30].forEach(ms => {
+      const y = GRAPH_HEIGHT - (ms / GRAPH_MAX_MS) * GRAPH_HEIGHT;
+      graph.moveTo(0, y).lineTo(SAMPLE_COUNT, y);
+    });
+    graph.stroke({ width: 1, color: 0x666666 });
+
+    // Newest frame on the right
+    const offset = SAMPLE_COUNT - frameTimes.length;
+    frameTimes.forEach((ms, i) => {
+      const height = Math.min(ms, GRAPH_MAX_MS) / GRAPH_MAX_MS * GRAPH_HEIGHT;
+      const color = ms > 1000 / 30 ? 0xff5252 : ms > 1000 / 55 ? 0xffd54f : 0x00ff00;
+      graph.rect(offset + i, GRAPH_HEIGHT - height, 1, height).fill(color);
+    });
+  }
+
+  function updateText() {
+    const stats = summarizeFrameTimes(frameTimes);
+    const fps = stats.avg > 0 ? Math.round(1000 / stats.avg) : 0;
+
+    if (mode === 'compact') {
+      text.text = `FPS: ${fps}  ${stats.avg.toFixed(1)}ms`;
+      return;
+    }
+
+    const textures = estimateTextureMemory(app);
+    const lines = [
+      `FPS: ${fps}  1% low: ${Math.round(stats.low1)}`,
+      `frame ms  min ${stats.min.toFixed(1)}  avg ${stats.avg.toFixed(1)}  max ${stats.max.toFixed(1)}`,
+      `objects ${countDisplayObjects(app.stage, hud)}`,
+      `textures ${textures.count}  ~${(textures.bytes / (1024 * 1024)).toFixed(1)} MB`,
+      'tickers (ms/frame)'
+    ];
+    const timings = getTickerTimings();
+    if (timings.length === 0) {
+      lines.push('  none');
+    }
+    timings.forEach(timing => {
+      lines.push(`  ${timing.name.padEnd(20)} ${timing.avgMs.toFixed(2)}`);
+    });
+    text.text = lines.join('\n');
+  }
+
+  function layoutHud() {
+    const expanded = mode === 'expanded';
+    graph.visible = expanded;
+    text.y = expanded ? PADDING * 2 + GRAPH_HEIGHT : PADDING;
+
+    const width = Math.max(expanded ? SAMPLE_COUNT : 0, text.width) + PADDING * 2;
+    const height = text.y + text.height + PADDING;
+    background.clear();
+    background.roundRect(0, 0, width, height, 4).fill({ color: 0x000000, alpha: 0.6 });
+  }
+
+  const hudTicker = () => {
+    frameTimes.push(app.ticker.elapsedMS);
+    if (frameTimes.length > SAMPLE_COUNT) {
+      frameTimes.shift();
+    }
+    if (!hud.visible) return;
+
+    if (mode === 'expanded') {
+      drawGraph();
+    }
+
+    textTimer += app.ticker.elapsedMS;
+    if (textTimer >= TEXT_INTERVAL_MS) {
+      textTimer = 0;
+      updateText();
+      layoutHud();
+    }
+  };
+
+  function setVisible(visible: boolean) {
+    if (hud.visible === visible) return;
+    hud.visible = visible;
+    textTimer = TEXT_INTERVAL_MS;
+  }
+
+  function setMode(next: PerfHudMode) {
+    mode = next;
+    textTimer = TEXT_INTERVAL_MS;
+  }
+
+  function toggleMode() {
+    setMode(mode === 'compact' ? 'expanded' : 'compact');
+  }
+
+  function onKeyDown(event: KeyboardEvent) {
+    if (event.key !== hotkey) return;
+    event.preventDefault();
+    const wasVisible = hud.visible;
+    if (event.shiftKey) {
+      setVisible(true);
+      toggleMode();
+    } else {
+      setVisible(!hud.visible);
+    }
+    if (hud.visible !== wasVisible) {
+      options.onVisibleChange?.(hud.visible);
+    }
+  }
+
+  // Clicking the HUD switches between compact and expanded
+  hud.on('pointerdown', event => {
+    event.stopPropagation();
+    toggleMode();
+  });
+
+  window.addEventListener('keydown', onKeyDown);
+  // Low priority so the HUD updates after the scene tickers it reports on
+  app.ticker.add(hudTicker, undefined, PIXI.UPDATE_PRIORITY.UTILITY);
+
+  return {
+    setVisible,
+    isVisible: () => hud.visible,
+    setMode,
+    getMode: () => mode,
+    destroy() {
+      window.removeEventListener('keydown', onKeyDown);
+      app.ticker.remove(hudTicker);
+      hud.destroy({ children: true });
+    }
+  };
+}
+
+export type PerfHud = ReturnType<typeof createPerfHud>;
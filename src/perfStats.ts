@@ -0,0 +1,80 @@
+// Frame and ticker timing for the performance HUD
+
+export interface FrameStats {
+  // Frame times in milliseconds
+  min: number;
+  avg: number;
+  max: number;
+  // Average FPS of the slowest 1% of frames
+  low1: number;
+}
+
+export function summarizeFrameTimes(samples: number[]): FrameStats {
+  if (samples.length === 0) {
+    return { min: 0, avg: 0, max: 0, low1: 0 };
+  }
+
+  let min = Infinity;
+  let max = 0;
+  let total = 0;
+  samples.forEach(ms => {
+    min = Math.min(min, ms);
+    max = Math.max(max, ms);
+    total += ms;
+  });
+
+  // At least one frame counts as the slowest 1%
+  const worst = [...samples].sort((a, b) => b - a).slice(0, Math.max(1, Math.ceil(samples.length / 100)));
+  const worstAvg = worst.reduce((sum, ms) => sum + ms, 0) / worst.length;
+
+  return {
+    min,
+    avg: total / samples.length,
+    max,
+    low1: worstAvg > 0 ? 1000 / worstAvg : 0
+  };
+}
+
+export interface TickerTiming {
+  name: string;
+  // Smoothed time per call in milliseconds
+  avgMs: number;
+  lastRun: number;
+}
+
+const tickerTimings = new Map<string, TickerTiming>();
+// Weight of the newest sample in the smoothed time
+const SMOOTHING = 0.1;
+
+// Wrap a ticker function so its run time shows up in the performance HUD
+export function profileTicker(name: string, ticker: () => void): () => void {
+  return () => {
+    const start = performance.now();
+    try {
+      ticker();
+    } finally {
+      const end = performance.now();
+      const timing = tickerTimings.get(name);
+      if (timing) {
+        timing.avgMs += (end - start - timing.avgMs) * SMOOTHING;
+        timing.lastRun = end;
+      } else {
+        tickerTimings.set(name, { name, avgMs: end - start, lastRun: end });
+      }
+    }
+  };
+}
+
+// Tickers that ran recently, slowest first
+export function getTickerTimings(maxAgeMs = 500, now = performance.now()): TickerTiming[] {
+  const result: TickerTiming[] = [];
+  tickerTimings.forEach((timing, name) => {
+    if (now - timing.lastRun > maxAgeMs) {
+      // Stopped with its scene
+      tickerTimings.delete(name);
+    } else {
+      result.push(timing);
+    }
+  });
+  return result.sort((a, b) => b.avgMs - a.avgMs);
+}
@@ -0,0 +1,92 @@
+import { SceneParams, SwitchOptions } from './scenes/sceneRegistry';
+
+// URL hash route, e.g. #/ace?cards=52&interval=250
+export interface Route {
+  sceneId: string;
+  params: SceneParams;
+}
+
+// How a scene switch is recorded in browser history
+export type HistoryMode = 'push' | 'replace' | 'none';
+
+export function parseRoute(hash: string): Route | null {
+  const match = /^#\/([^?]*)(?:\?(.*))?$/.exec(hash);
+  if (!match || !match[1]) return null;
+
+  const params: SceneParams = {};
+  new URLSearchParams(match[2] || '').forEach((value, key) => {
+    params[key] = value;
+  });
+
+  return { sceneId: decodeURIComponent(match[1]), params };
+}
+
+export function formatRoute(route: Route): string {
+  const query = new URLSearchParams(route.params).toString();
+  return `#/${encodeURIComponent(route.sceneId)}${query ? `?${query}` : ''}`;
+}
+
+export function writeRoute(route: Route, mode: HistoryMode) {
+  if (mode === 'none') return;
+
+  const hash = formatRoute(route);
+  if (hash === window.location.hash) return;
+
+  // pushState/replaceState do not fire hashchange, so there is no feedback loop
+  if (mode === 'push') {
+    history.pushState(null, '', hash);
+  } else {
+    history.replaceState(null, '', hash);
+  }
+}
+
+// Read a numeric parameter, falling back when it is missing or out of range
+export function numberParam(
+  params: SceneParams,
+  key: string,
+  fallback: number,
+  min = -Infinity,
+  max = Infinity
+): number {
+  const raw = params[key];
+  if (raw === undefined || raw === '') return fallback;
+
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < min || value > max) {
+    console.warn(`Ignoring invalid "${key}" parameter:`, raw);
+    return fallback;
+  }
+  return value;
+}
+
+// Read a parameter that must be one of a fixed set of values
+export function choiceParam<T extends string>(
+  params: SceneParams,
+  key: string,
+  choices: readonly T[],
+  fallback: T
+): T {
+  const raw = params[key];
+  if (raw === undefined || raw === '') return fallback;
+
+  if (!(choices as readonly string[]).includes(raw)) {
+    console.warn(`Ignoring invalid "${key}" parameter:`, raw);
+    return fallback;
+  }
+  return raw as T;
+}
+
+// Open the scene from the current URL and follow back/forward navigation
+export function startHashRouting(
+  switchToScene: (id: string, options?: SwitchOptions) => void,
+  defaultSceneId: string
+) {
+  const openCurrentRoute = (history: HistoryMode) => {
+    const route = parseRoute(window.location.hash);
+    switchToScene(route?.sceneId ?? defaultSceneId, { params: route?.params, history });
+  };
+
+  // Back/forward already changed the URL, so it must not be written again
+  window.addEventListener('hashchange', () => openCurrentRoute('none'));
+  openCurrentRoute('replace');
+}
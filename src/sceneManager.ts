@@ -0,0 +1,344 @@
+import * as PIXI from 'pixi.js';
+import { areBundlesLoaded, getRuntimeBundles, loadBundles, preloadBundles, unloadBundlesExcept } from './assets';
+import { Layout } from './layout';
+import { profileTicker } from './perfStats';
+import { HistoryMode, writeRoute } from './router';
+import { Scene, SceneContext, SceneParams, SceneTickers, SwitchOptions, getSceneDefinition } from './scenes/sceneRegistry';
+import { SettingsService } from './settings';
+import { SceneTransition, TransitionName, createTransition } from './transitions';
+
+const FALLBACK_SCENE_ID = 'menu';
+const LOADING_SCENE_ID = 'loading';
+const DEFAULT_TRANSITION: TransitionName = 'fade';
+const DEFAULT_OVERLAY_TRANSITION: TransitionName = 'crossfade';
+
+interface ActiveTransition {
+  transition: SceneTransition;
+  elapsedMs: number;
+  // Scene that is being hidden, torn down when the transition ends
+  outgoingId: string | null;
+}
+
+export function createSceneManager(app: PIXI.Application, layout: Layout, settings: SettingsService) {
+  const scenes: { [key: string]: Scene } = {};
+  // Ticker functions for each scene to be able to remove them
+  const sceneTickers: SceneTickers = {};
+  // Scene ids from bottom to top, the last one is the current scene
+  const stack: string[] = [];
+  // Event mode of paused scenes, restored on resume
+  const pausedEventModes: { [key: string]: PIXI.EventMode } = {};
+  let activeTransition: ActiveTransition | null = null;
+  // Increases with every switch so stale bundle loads are ignored
+  let switchRequest = 0;
+
+  const context: SceneContext = { app, layout, settings, sceneTickers, switchToScene, pushScene, popScene };
+
+  function getCurrentSceneId(): string | null {
+    return stack.length > 0 ? stack[stack.length - 1] : null;
+  }
+
+  // Remove every ticker function owned by a scene
+  function stopSceneTickers(id: string) {
+    sceneTickers[id]?.forEach(ticker => app.ticker.remove(ticker));
+    delete sceneTickers[id];
+  }
+
+  // Stop a scene below an overlay, its tickers stay registered for resume
+  function pauseScene(id: string) {
+    const scene = scenes[id];
+    if (!scene) return;
+
+    sceneTickers[id]?.forEach(ticker => app.ticker.remove(ticker));
+    pausedEventModes[id] = scene.container.eventMode ?? 'passive';
+    scene.container.eventMode = 'none';
+
+    try {
+      scene.pause?.();
+    } catch (e) {
+      console.warn('Error during scene pause:', e);
+    }
+  }
+
+  function resumeScene(id: string) {
+    const scene = scenes[id];
+    if (!scene) return;
+
+    sceneTickers[id]?.forEach(ticker => app.ticker.add(ticker));
+    if (pausedEventModes[id]) {
+      scene.container.eventMode = pausedEventModes[id];
+      delete pausedEventModes[id];
+    }
+
+    try {
+      scene.resume?.();
+    } catch (e) {
+      console.warn('Error during scene resume:', e);
+    }
+  }
+
+  function exitScene(id: string) {
+    try {
+      scenes[id]?.exit?.();
+    } catch (e) {
+      console.warn('Error during scene exit:', e);
+    }
+  }
+
+  function destroyScene(id: string) {
+    const scene = scenes[id];
+    if (!scene) return;
+
+    try {
+      scene.destroy?.();
+    } catch (e) {
+      console.warn('Error during scene cleanup:', e);
+    }
+
+    if (!scene.container.destroyed) {
+      scene.container.destroy({ children: true });
+    }
+    delete scenes[id];
+  }
+
+  // Stop and remove a scene once it is fully hidden
+  function teardownScene(id: string) {
+    const scene = scenes[id];
+    if (!scene) return;
+
+    scene.container.visible = false;
+    stopSceneTickers(id);
+    delete pausedEventModes[id];
+
+    if (scene.container.parent === layout.root) {
+      layout.root.removeChild(scene.container);
+    }
+
+    // Non-persistent scenes restart with fresh state on the next visit
+    if (!getSceneDefinition(id)?.persistent) {
+      destroyScene(id);
+    }
+  }
+
+  function getOrCreateScene(id: string, params: SceneParams): Scene {
+    const existing = scenes[id];
+    if (existing) return existing;
+
+    const definition = getSceneDefinition(id)!;
+    const scene = definition.factory(context, params);
+    scene.create?.();
+    scenes[id] = scene;
+    return scene;
+  }
+
+  // Put a scene on the stage and start its update hook
+  function showScene(id: string, params: SceneParams): Scene {
+    const scene = getOrCreateScene(id, params);
+    scene.container.visible = true;
+    layout.root.addChild(scene.container);
+    scene.enter?.();
+
+    // Drive the update hook through the scene's own tickers
+    if (scene.update) {
+      const updateTicker = profileTicker(`${id}/update`, () => scene.update!(app.ticker));
+      app.ticker.add(updateTicker);
+      if (!sceneTickers[id]) sceneTickers[id] = [];
+      sceneTickers[id].push(updateTicker);
+    }
+    return scene;
+  }
+
+  // Block pointer input on the whole stage while a transition runs
+  function setInputBlocked(blocked: boolean) {
+    app.stage.eventMode = blocked ? 'none' : 'passive';
+  }
+
+  function startTransition(
+    name: TransitionName,
+    from: PIXI.Container | null,
+    to: PIXI.Container,
+    outgoingId: string | null
+  ) {
+    activeTransition = {
+      // Reduced motion swaps every transition for an instant cut
+      transition: createTransition(settings.get('reducedMotion') ? 'cut' : name, from, to, app),
+      elapsedMs: 0,
+      outgoingId
+    };
+    setInputBlocked(true);
+    app.ticker.add(transitionTicker);
+  }
+
+  function finishTransition() {
+    if (!activeTransition) return;
+
+    const { transition, outgoingId } = activeTransition;
+    activeTransition = null;
+    app.ticker.remove(transitionTicker);
+
+    transition.finish();
+    if (outgoingId && !stack.includes(outgoingId)) {
+      teardownScene(outgoingId);
+      releaseUnusedBundles();
+    }
+    setInputBlocked(false);
+  }
+
+  // Unload bundles that no live scene needs or expects to need next
+  function releaseUnusedBundles() {
+    const liveIds = Object.keys(scenes);
+    const keep = liveIds.flatMap(id => {
+      const definition = getSceneDefinition(id);
+      return [...(definition?.bundles ?? []), ...(definition?.preload ?? [])];
+    });
+    unloadBundlesExcept([...keep, ...getRuntimeBundles(liveIds)]);
+  }
+
+  function transitionTicker() {
+    if (!activeTransition) return;
+
+    activeTransition.elapsedMs += app.ticker.deltaMS;
+    const { transition, elapsedMs } = activeTransition;
+    const progress = transition.durationMs > 0 ? Math.min(1, elapsedMs / transition.durationMs) : 1;
+    transition.update(progress);
+
+    if (progress >= 1) {
+      finishTransition();
+    }
+  }
+
+  // Scene management
+  function switchToScene(id: string, options: SwitchOptions = {}) {
+    let params = options.params ?? {};
+    let historyMode = options.history ?? 'push';
+    if (!getSceneDefinition(id)) {
+      console.warn(`Unknown scene "${id}", falling back to "${FALLBACK_SCENE_ID}"`);
+      id = FALLBACK_SCENE_ID;
+      params = {};
+      // Replace the broken URL instead of leaving it in the address bar
+      if (historyMode === 'none') historyMode = 'replace';
+      if (!getSceneDefinition(id)) {
+        throw new Error(`Fallback scene "${id}" is not registered`);
+      }
+    }
+
+    const request = ++switchRequest;
+    const bundles = getSceneDefinition(id)!.bundles ?? [];
+    if (!areBundlesLoaded(bundles)) {
+      // Show the loading screen, the URL is only written once the scene opens
+      if (getCurrentSceneId() !== LOADING_SCENE_ID) {
+        enterScene(LOADING_SCENE_ID, {}, 'none', options.transition);
+      }
+      loadBundles(bundles)
+        .then(() => {
+          if (request === switchRequest) {
+            switchToScene(id, { ...options, params, history: historyMode });
+          }
+        })
+        .catch(error => {
+          console.error(`Failed to load bundles for scene "${id}":`, error);
+          if (request === switchRequest && id !== FALLBACK_SCENE_ID) {
+            switchToScene(FALLBACK_SCENE_ID, { history: 'replace' });
+          }
+        });
+      return;
+    }
+
+    enterScene(id, params, historyMode, options.transition);
+  }
+
+  // Replace the stack with a scene whose bundles are loaded
+  function enterScene(id: string, params: SceneParams, historyMode: HistoryMode, transition?: TransitionName) {
+    // A new switch skips whatever transition is still running
+    finishTransition();
+
+    // Overlays close instantly, only the base scene transitions out
+    while (stack.length > 1) {
+      popScene();
+    }
+
+    const outgoingId = stack.pop() ?? null;
+    if (outgoingId) {
+      exitScene(outgoingId);
+    }
+    if (outgoingId === id) {
+      // Re-entering the same scene restarts it without a transition
+      teardownScene(id);
+    }
+
+    stack.push(id);
+    writeRoute({ sceneId: id, params }, historyMode);
+    const scene = showScene(id, params);
+    preloadBundles(getSceneDefinition(id)!.preload ?? []);
+
+    // Both scenes keep rendering and ticking until the transition ends
+    const transitionName = transition ?? getSceneDefinition(id)!.transition ?? DEFAULT_TRANSITION;
+    const from = outgoingId && outgoingId !== id ? scenes[outgoingId]?.container ?? null : null;
+    startTransition(transitionName, from, scene.container, outgoingId !== id ? outgoingId : null);
+  }
+
+  function pushScene(id: string, options: SwitchOptions = {}) {
+    if (!getSceneDefinition(id)) {
+      console.warn(`Unknown overlay scene "${id}"`);
+      return;
+    }
+    if (stack.includes(id)) {
+      console.warn(`Scene "${id}" is already open`);
+      return;
+    }
+
+    // Overlays are small, so they load without a loading screen
+    const bundles = getSceneDefinition(id)!.bundles ?? [];
+    if (!areBundlesLoaded(bundles)) {
+      // A switch while loading replaced the scene the overlay was meant for
+      const request = switchRequest;
+      loadBundles(bundles)
+        .then(() => {
+          if (request === switchRequest) pushScene(id, options);
+        })
+        .catch(error => console.error(`Failed to load bundles for overlay "${id}":`, error));
+      return;
+    }
+
+    finishTransition();
+
+    const underneathId = getCurrentSceneId();
+    if (underneathId) {
+      pauseScene(underneathId);
+    }
+
+    stack.push(id);
+    const scene = showScene(id, options.params ?? {});
+    startTransition(options.transition ?? DEFAULT_OVERLAY_TRANSITION, null, scene.container, null);
+  }
+
+  function popScene() {
+    if (stack.length <= 1) {
+      console.warn('No overlay scene to close');
+      return;
+    }
+
+    finishTransition();
+
+    const id = stack.pop()!;
+    exitScene(id);
+    teardownScene(id);
+    releaseUnusedBundles();
+
+    // Pick up exactly where the scene underneath left off
+    resumeScene(getCurrentSceneId()!);
+  }
+
+  return {
+    switchToScene,
+    pushScene,
+    popScene,
+    sceneTickers,
+    getCurrentSceneId,
+    getCurrentScene: () => {
+      const id = getCurrentSceneId();
+      return id ? scenes[id] ?? null : null;
+    },
+    isTransitioning: () => activeTransition !== null,
+    hasOverlay: () => stack.length > 1
+  };
+}
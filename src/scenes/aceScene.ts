@@ -1,336 +1,755 @@
 import * as PIXI from 'pixi.js';
 import { Assets } from 'pixi.js';
-import { addBackToMenuButton, addFpsCounter } from '../utils';
+import { createCardFaceAtlas } from '../cards/cardFaces';
+import { CARD_LAYOUT_MODES, CardLayoutMode, CardSlotLayout, blendCardLayouts, createCardLayout } from '../cards/cardLayout';
+import { Deck, createDeck } from '../cards/deck';
+import { PILE_LAYOUT_MODES, computePileLayout } from '../cards/pileLayout';
+import { PlayingCard, createPlayingCard } from '../cards/playingCard';
+import { cardLabel, faceForCard } from '../cards/playingCards';
+import { createControlPanel } from '../controlPanel';
+import { FLIGHT_LOOKS, FlightEffect, createFlightEffects } from '../flightEffect';
+import { choiceParam, numberParam } from '../router';
+import { createManualClock, createSeededRandom } from '../simulation/core';
+import { createDeckHistory } from '../simulation/deckHistory';
+import { CYCLE_ORDERS, CardFlight, ShuffleStyle, createDeckModel } from '../simulation/deckModel';
+import { createDeckSnapshot, loadDeckSnapshot, saveDeckSnapshot } from '../simulation/deckSnapshot';
+import { TweenHandle, motion, parallel, pointOnBezier, sequence, tween, wait } from '../tweens';
+import { addActionButton, addBackToMenuButton, addPauseButton, addSettingsButton, addSceneTicker, addSceneTweens } from '../utils';
+import { Scene, SceneContext, SceneParams, registerScene } from './sceneRegistry';
 
+// URL params: cards, interval (ms between moves), duration (ms per flight),
+// piles (2-8), order (round-robin, random, ping-pong), layout (row, grid, tableau), seed (shuffles),
+// restore (0 starts from a fresh deck instead of the saved one), flight (flat, 3d),
+// arrange (stack, fan, spread, grid: how the cards of a pile lie)
 export function createAceScene(
-  app: PIXI.Application,
-  sceneTickers: { [key: string]: (() => void)[] },
-  switchToScene: (id: string) => void
-): PIXI.Container {
+  { app, layout, settings, sceneTickers, switchToScene, pushScene }: SceneContext,
+  params: SceneParams
+): Scene {
   const scene = new PIXI.Container();
-  
-  addFpsCounter(scene, app, sceneTickers, 'ace');
-  addBackToMenuButton(scene, app, switchToScene);
 
-  const NUM_SPRITES = 144;
+  addBackToMenuButton(scene, layout, switchToScene);
+  addPauseButton(scene, layout, pushScene);
+  addSettingsButton(scene, layout, pushScene);
+
+  const NUM_SPRITES = Math.round(numberParam(params, 'cards', 144, 1, 1000));
+  const PILE_COUNT = Math.round(numberParam(params, 'piles', 2, 2, 8));
+  const cycleOrder = choiceParam(params, 'order', CYCLE_ORDERS, 'ping-pong');
+  const pileLayoutMode = choiceParam(params, 'layout', PILE_LAYOUT_MODES, 'row');
+  const shuffleSeed = Math.round(numberParam(params, 'seed', Math.floor(Math.random() * 0x7fffffff), 0));
+  let flightLook = choiceParam(params, 'flight', FLIGHT_LOOKS, 'flat');
+  let cardArrangement = choiceParam(params, 'arrange', CARD_LAYOUT_MODES, 'stack');
   const STACK_OFFSET = 0.6;
-  
-  // Create two deck containers
-  const leftDeck = new PIXI.Container();
-  leftDeck.sortableChildren = true;
-  scene.addChild(leftDeck);
-
-  const rightDeck = new PIXI.Container();
-  rightDeck.sortableChildren = true;
-  scene.addChild(rightDeck);
-
-  // Position decks
-  const deckXLeft = app.renderer.width * 0.25;
-  const deckXRight = app.renderer.width * 0.65;
-  const deckY = app.renderer.height / 2;
-
-  leftDeck.x = deckXLeft;
-  leftDeck.y = deckY;
-  rightDeck.x = deckXRight;
-  rightDeck.y = deckY;
-
-  // Create 144 card sprites
+  // Height of the flight arc above the higher of the two decks
+  const ARC_HEIGHT = 40;
+  const CARD_SCALE = 0.6;
+  // Space kept free for the buttons along the top edge
+  const TOP_BAR_HEIGHT = 50;
+  const SNAPSHOT_KEY = 'pixi-demo-ace-deck';
+
+  // The saved session continues where it was left, unless the URL asks for another setup
+  const saved = numberParam(params, 'restore', 1, 0, 1) > 0 ? loadDeckSnapshot(SNAPSHOT_KEY) : null;
+  const snapshot = saved && saved.piles.length === PILE_COUNT &&
+    (params.cards === undefined || saved.piles.flat().length === NUM_SPRITES) ? saved : null;
+  // Card ids per pile from bottom to top, a fresh deck starts face down on the first pile
+  const startPiles = snapshot?.piles ?? [Array.from({ length: NUM_SPRITES }, (_, i) => i)];
+
   const cardTexture = Assets.get('card') as PIXI.Texture;
-  
+
+  // Faces are drawn at the size of the card back so flipping keeps the card size
+  const faceAtlas = createCardFaceAtlas(app, cardTexture.width, cardTexture.height);
+
+  type CardDeck = Deck<PlayingCard>;
+
+  // One deck per pile, indexed like the model piles
+  const decks: CardDeck[] = Array.from({ length: PILE_COUNT }, () => {
+    const deck = createDeck<PlayingCard>(STACK_OFFSET);
+    scene.addChild(deck.container);
+    return deck;
+  });
+
+  // The first pile is the face-down stock, the others show faces
+  const isFaceUpPile = (pile: number) => pile !== 0;
+
+  // Current card scale, shrinks when many piles share the screen
+  let cardScale = CARD_SCALE;
+
+  // Tuned live from the control panel
+  let stackOffset = STACK_OFFSET;
+  let arcHeight = ARC_HEIGHT;
+  let cardTotal = startPiles.flat().length;
+
+  // Create card sprites for the starting piles.
+  // Card ids match the model, so a card keeps its face on every deck.
+  const cardsById = new Map<number, PlayingCard>();
+
+  function createCard(cardId: number, pile = 0): PlayingCard {
+    const face = faceForCard(cardId);
+    const card = createPlayingCard(cardId, face, faceAtlas.getTexture(face), cardTexture, isFaceUpPile(pile));
+    card.scale.set(cardScale);
+    cardsById.set(cardId, card);
+    return card;
+  }
+
+  startPiles.forEach((cardIds, pile) => {
+    cardIds.forEach(cardId => decks[pile].push(createCard(cardId, pile)));
+  });
+
   // Store cards that are currently animating
-  const animatingCards: Set<PIXI.Sprite> = new Set();
-  
-  // Animation state interface
+  const animatingCards: Set<PlayingCard> = new Set();
+
+  // Card flights, the tween runs as long as the simulated flight
   interface CardAnimation {
-    card: PIXI.Sprite;
-    startTime: number;
-    durationMs: number;
-    sourceX: number;
-    sourceY: number;
-    midX: number;
-    midY: number;
-    targetX: number;
-    targetY: number;
-    targetDeck: PIXI.Container;
+    card: PlayingCard;
+    flight: CardFlight;
+    targetDeck: CardDeck;
+    tween: TweenHandle;
+    effect: FlightEffect | null;
   }
-  
-  // Store all active card animations (updated by PIXI Ticker)
+
+  // Store all active card animations
   const activeCardAnimations: CardAnimation[] = [];
 
-  let leftTopCard: PIXI.Sprite | null = null;
-  let rightTopCard: PIXI.Sprite | null = null;
+  // Card movement runs on the scene's tween ticker
+  const tweens = addSceneTweens(app, sceneTickers, 'ace', scene);
+  const flightEffects = createFlightEffects();
+
+  // Switching the card layout moves every card to its new slot, bottom card first
+  const ARRANGE_DURATION_MS = 800;
+  // Share of the switch over which the cards set off
+  const ARRANGE_STAGGER = 0.5;
+  let activeArrange: TweenHandle | null = null;
+
+  // Arrange the piles in the visible area below the buttons
+  function arrangePiles() {
+    // A running layout switch ends at once, its slots are out of date
+    activeArrange?.kill();
+    activeArrange = null;
+
+    const { x, y, width, height } = layout.viewport;
+    const stacks = cardArrangement === 'stack';
+    // Fans, spreads and grids are centered on their pile, so tableau piles become a row
+    const pileLayout = computePileLayout(
+      !stacks && pileLayoutMode === 'tableau' ? 'row' : pileLayoutMode,
+      PILE_COUNT,
+      { x, y: y + TOP_BAR_HEIGHT, width, height: height - TOP_BAR_HEIGHT },
+      {
+        cardWidth: cardTexture.width * CARD_SCALE,
+        cardHeight: cardTexture.height * CARD_SCALE,
+        maxPileSize: cardTotal,
+        stackOffset: stacks ? stackOffset : 0
+      }
+    );
+
+    cardScale = CARD_SCALE * pileLayout.scale;
+    const cardLayout = createCardLayout(cardArrangement, {
+      cardWidth: cardTexture.width * cardScale,
+      cardHeight: cardTexture.height * cardScale,
+      maxWidth: pileLayout.cell.width - 20,
+      maxHeight: pileLayout.cell.height - 40,
+      stackOffset: pileLayout.stackOffset
+    });
+    decks.forEach((deck, i) => {
+      deck.container.position.copyFrom(pileLayout.positions[i]);
+      deck.setStackOffset(pileLayout.stackOffset.x, pileLayout.stackOffset.y);
+      deck.setSlotLayout(cardLayout);
+      deck.cards.forEach(card => card.scale.set(cardScale));
+    });
+    animatingCards.forEach(card => card.scale.set(cardScale));
+  }
+
+  // Same slots, seen from a pile origin that moved by dx and dy
+  function shiftLayout(slotLayout: CardSlotLayout, dx: number, dy: number): CardSlotLayout {
+    return (index, count) => {
+      const slot = slotLayout(index, count);
+      return { x: slot.x + dx, y: slot.y + dy, rotation: slot.rotation };
+    };
+  }
+
+  // Cards glide to the slots of another layout, cards landing or leaving meanwhile
+  // take part since the slots are worked out every frame
+  function setArrangement(mode: CardLayoutMode) {
+    const from = decks.map(deck => ({ slotLayout: deck.slotLayout, origin: deck.container.position.clone() }));
+    cardArrangement = mode;
+    arrangePiles();
+    if (settings.get('reducedMotion')) return;
+
+    const paths = decks.map((deck, i) => ({
+      from: shiftLayout(from[i].slotLayout, from[i].origin.x - deck.container.x, from[i].origin.y - deck.container.y),
+      to: deck.slotLayout
+    }));
+    const blend = { progress: 0 };
+    const handle = tweens.to(blend, { progress: 1 }, {
+      duration: ARRANGE_DURATION_MS,
+      onUpdate: () => decks.forEach((deck, i) => {
+        deck.setSlotLayout(blendCardLayouts(paths[i].from, paths[i].to, blend.progress, ARRANGE_STAGGER));
+      })
+    });
+    activeArrange = handle;
+    handle.finished.then(completed => {
+      if (!completed) return;
+      activeArrange = null;
+      decks.forEach((deck, i) => deck.setSlotLayout(paths[i].to));
+    });
+  }
+
+  layout.onResize(scene, arrangePiles);
 
-  for (let i = 0; i < NUM_SPRITES; i++) {
-    const card = new PIXI.Sprite(cardTexture);
-    card.anchor.set(0.5);
-    card.scale.set(0.6);
+  const moveInterval = numberParam(params, 'interval', 1000, 0);
+  const durationMs = numberParam(params, 'duration', 2000, 1);
+
+  // Scene clock, only advances while the scene is running so pausing does not skip ahead
+  const clock = createManualClock();
+  // The model decides which card moves when, the sprites only mirror it
+  const deckModel = createDeckModel({
+    cardCount: NUM_SPRITES,
+    pileCount: PILE_COUNT,
+    piles: snapshot?.piles,
+    nextCardId: snapshot?.nextCardId,
+    order: cycleOrder,
+    moveInterval,
+    durationMs,
+    clock,
+    random: Math.random,
+    onCardLaunched: launchCard,
+    onCardLanded: landCard
+  });
+
+  // Every landed, dragged or shuffled card can be undone, the history is saved with the piles
+  const history = createDeckHistory(snapshot?.history);
+
+  // Share of a flight during which a card turns over
+  const FLIP_START = 0.3;
+  const FLIP_END = 0.7;
+
+  // Lift the top card out of its deck and start its flight
+  function launchCard(flight: CardFlight) {
+    const sourceDeck = decks[flight.from];
+    const targetDeck = decks[flight.to];
     
-    // Stack cards with slight offset
-    const stackOffset = i * STACK_OFFSET;
-    card.x = stackOffset;
-    card.y = stackOffset;
+    // Take the top card off the source deck, keeping its position in scene space
+    const card = sourceDeck.peek();
+    if (!card || card.cardId !== flight.cardId) {
+      console.warn('Deck sprites are out of sync with the model');
+      return;
+    }
+    const sourcePoint = scene.toLocal(card.position, sourceDeck.container);
+    sourceDeck.pop();
+
+    // Add card on top of the scene for animation
+    scene.addChild(card);
+    animatingCards.add(card);
+    card.x = sourcePoint.x;
+    card.y = sourcePoint.y;
+
+    // Landing point in scene space. The slot is looked up on every frame, cards dropped onto
+    // or taken off the target deck during the flight move it.
+    const landingPoint = () => {
+      const point = scene.toLocal(targetDeck.getStackPosition(deckModel.getTargetIndex(flight)), targetDeck.container);
+      return { x: point.x + flight.jitterX, y: point.y + flight.jitterY };
+    };
+    const { x: finalTargetX, y: finalTargetY } = landingPoint();
     
-    // Set zIndex
-    card.zIndex = i;
+    // Add vertical offset in the middle of the path, reduced motion flies straight
+    const midX = (sourcePoint.x + finalTargetX) / 2;
+    const midY = settings.get('reducedMotion')
+      ? (sourcePoint.y + finalTargetY) / 2
+      : Math.min(sourcePoint.y, finalTargetY) - arcHeight;
+
+    // Turns over in the middle part of the flight when the decks show different sides
+    const flips = card.faceUp !== isFaceUpPile(flight.to);
+    const effect = flightLook === '3d' && !settings.get('reducedMotion')
+      ? flightEffects.apply(card, sourcePoint, { x: finalTargetX, y: finalTargetY })
+      : null;
+    // Fanned cards turn to the angle of their new slot on the way
+    const startRotation = card.rotation;
+    const handle = tweens.play(motion(
+      card,
+      progress => pointOnBezier([sourcePoint, { x: midX, y: midY }, landingPoint()], progress),
+      {
+        duration: flight.durationMs,
+        ease: 'quadInOut',
+        onUpdate: progress => {
+          const targetRotation = targetDeck.getSlot(deckModel.getTargetIndex(flight)).rotation;
+          card.rotation = startRotation + (targetRotation - startRotation) * progress;
+          if (flips) {
+            card.setFlipProgress((progress - FLIP_START) / (FLIP_END - FLIP_START), cardScale);
+          }
+          effect?.update(progress);
+        }
+      }
+    ), card);
+
+    activeCardAnimations.push({ card, flight, targetDeck, tween: handle, effect });
+  }
+
+  // Put a card that finished its flight on top of the target deck
+  function landCard(flight: CardFlight) {
+    history.record({ type: 'move', cardId: flight.cardId, from: flight.from, to: flight.to });
+    const index = activeCardAnimations.findIndex(anim => anim.flight === flight);
+    if (index === -1) return;
+    const anim = activeCardAnimations[index];
+    activeCardAnimations.splice(index, 1);
+    anim.tween.kill();
+    anim.effect?.destroy();
     
-    leftDeck.addChild(card);
-    // Last card
-    leftTopCard = card;
+    // Add card to target deck, it snaps onto the stack
+    if (anim.card && !anim.card.destroyed) {
+      if (anim.card.parent === scene) {
+        scene.removeChild(anim.card);
+      }
+      animatingCards.delete(anim.card);
+      anim.card.setFaceUp(isFaceUpPile(flight.to));
+      anim.card.scale.set(cardScale);
+      anim.targetDeck.push(anim.card);
+    }
   }
 
-  // Get top card from a deck
-  function getTopCard(deck: PIXI.Container): PIXI.Sprite | null {
-    if (deck === leftDeck) {
-      return leftTopCard;
-    } else if (deck === rightDeck) {
-      return rightTopCard;
+  // Drag and drop: the top card of any deck can be moved by hand
+  const RETURN_DURATION_MS = 250;
+
+  interface CardDrag {
+    card: PlayingCard;
+    originDeck: CardDeck;
+    // Pointer position relative to the card center
+    offsetX: number;
+    offsetY: number;
+  }
+
+  let activeDrag: CardDrag | null = null;
+  // Card flying back to its deck after a drop outside every deck
+  let activeReturn: { card: PlayingCard; originDeck: CardDeck; tween: TweenHandle } | null = null;
+
+  // Scene receives pointer events anywhere in the visible area
+  scene.eventMode = 'static';
+  layout.onResize(scene, () => {
+    const { x, y, width, height } = layout.viewport;
+    scene.hitArea = new PIXI.Rectangle(x, y, width, height);
+  });
+
+  // Deck whose top card is under a point, using the cached top cards
+  function findTopCardAt(global: PIXI.Point): CardDeck | null {
+    for (const deck of decks) {
+      const topCard = deck.peek();
+      if (topCard && topCard.getBounds().containsPoint(global.x, global.y)) {
+        return deck;
+      }
     }
     return null;
   }
 
-  // Add card to top of deck
-  function addCardToTop(deck: PIXI.Container, card: PIXI.Sprite) {
-    // Get max zIndex from current top card (O(1)) or calculate if no top card
-    let maxZ = -1;
-    if (deck === leftDeck && leftTopCard) {
-      maxZ = (leftTopCard as any).zIndex ?? 0;
-    } else if (deck === rightDeck && rightTopCard) {
-      maxZ = (rightTopCard as any).zIndex ?? 0;
-    } else {
-      // Fallback: calculate max zIndex only if no cached top card
-      maxZ = getMaxZIndex(deck);
+  // Deck whose cards cover a point, empty decks keep a card-sized slot
+  function findDeckAt(global: PIXI.Point): CardDeck | null {
+    const point = scene.toLocal(global);
+    const halfWidth = cardTexture.width * cardScale / 2;
+    const halfHeight = cardTexture.height * cardScale / 2;
+    for (const deck of decks) {
+      if (deck.size > 0 && deck.container.getBounds().containsPoint(global.x, global.y)) {
+        return deck;
+      }
+      const { x, y } = deck.container;
+      if (Math.abs(point.x - x) <= halfWidth && Math.abs(point.y - y) <= halfHeight) {
+        return deck;
+      }
     }
-    
-    const stackOffset = deck.children.length * STACK_OFFSET;
-    
-    // Convert to deck local coordinates
-    card.x = stackOffset;
-    card.y = stackOffset;
-    card.zIndex = maxZ + 1;
-    
-    deck.addChild(card);
-    
-    // Update cached top card reference
-    if (deck === leftDeck) {
-      leftTopCard = card;
-    } else if (deck === rightDeck) {
-      rightTopCard = card;
+    return null;
+  }
+
+  // Automatic moves wait until the user is done with the cards, and after an undo until Resume
+  function finishInteraction() {
+    if (!rewound && !activeDrag && !activeReturn && !activeShuffle) {
+      deckModel.resume();
     }
   }
 
-  // Update cached top card reference after removal
-  function updateTopCardCache(deck: PIXI.Container) {
-    if (deck.children.length === 0) {
-      if (deck === leftDeck) {
-        leftTopCard = null;
-      } else if (deck === rightDeck) {
-        rightTopCard = null;
+  scene.on('pointerdown', (event) => {
+    if (activeDrag || activeReturn || activeShuffle) return;
+    const originDeck = findTopCardAt(event.global);
+    if (!originDeck) return;
+
+    deckModel.pause();
+
+    // Lift the card out of its deck, it follows the pointer in scene space
+    const card = originDeck.peek()!;
+    const cardPoint = scene.toLocal(card.position, originDeck.container);
+    originDeck.pop();
+    deckModel.takeTopCard(decks.indexOf(originDeck));
+    scene.addChild(card);
+    card.x = cardPoint.x;
+    card.y = cardPoint.y;
+    card.scale.set(cardScale * 1.05);
+
+    const pointer = scene.toLocal(event.global);
+    activeDrag = { card, originDeck, offsetX: card.x - pointer.x, offsetY: card.y - pointer.y };
+  });
+
+  scene.on('globalpointermove', (event) => {
+    if (!activeDrag) return;
+    const pointer = scene.toLocal(event.global);
+    activeDrag.card.x = pointer.x + activeDrag.offsetX;
+    activeDrag.card.y = pointer.y + activeDrag.offsetY;
+  });
+
+  function dropCard(event: PIXI.FederatedPointerEvent) {
+    if (!activeDrag) return;
+    const { card, originDeck } = activeDrag;
+    activeDrag = null;
+    card.scale.set(cardScale);
+
+    const targetDeck = findDeckAt(event.global);
+    if (targetDeck) {
+      // Snap onto the stack, turned to the side the deck shows
+      placeCard(card, targetDeck);
+      if (targetDeck !== originDeck) {
+        history.record({ type: 'move', cardId: card.cardId, from: decks.indexOf(originDeck), to: decks.indexOf(targetDeck) });
       }
+    } else if (settings.get('reducedMotion')) {
+      placeCard(card, originDeck);
+    } else {
+      returnCard(card, originDeck);
+    }
+    finishInteraction();
+  }
+
+  scene.on('pointerup', dropCard);
+  scene.on('pointerupoutside', dropCard);
+
+  // Ease the dropped card back onto the top of its origin deck
+  function returnCard(card: PlayingCard, originDeck: CardDeck) {
+    const target = scene.toLocal(originDeck.getStackPosition(), originDeck.container);
+    const handle = tweens.to(card, { x: target.x, y: target.y }, { duration: RETURN_DURATION_MS, ease: 'quadOut' });
+    activeReturn = { card, originDeck, tween: handle };
+    handle.finished.then(completed => {
+      if (!completed) return;
+      activeReturn = null;
+      placeCard(card, originDeck);
+      finishInteraction();
+    });
+  }
+
+  // Put a held card on top of a deck, the model follows the sprites
+  function placeCard(card: PlayingCard, deck: CardDeck) {
+    const pile = decks.indexOf(deck);
+    scene.removeChild(card);
+    card.setFaceUp(isFaceUpPile(pile));
+    deck.push(card);
+    deckModel.putCard(pile, card.cardId);
+  }
+
+  // Shuffle and riffle animations for a whole pile
+  const SHUFFLE_DURATION_MS = 1200;
+  // Share of the animation spent moving cards aside, and per card dropping back
+  const SHUFFLE_SPLIT = 0.3;
+  const SHUFFLE_DROP = 0.15;
+  const shuffleRandom = createSeededRandom(shuffleSeed);
+
+  let activeShuffle: TweenHandle | null = null;
+
+  // Shuffle the fullest pile, the model order changes at once and the sprites catch up
+  function shuffleFullestPile(style: ShuffleStyle) {
+    if (activeDrag || activeReturn || activeShuffle || activeArrange) return;
+    const pile = deckModel.piles.reduce((best, cards, i) => (cards.length > deckModel.piles[best].length ? i : best), 0);
+    const deck = decks[pile];
+    if (deck.size < 2) return;
+
+    deckModel.pause();
+    const result = deckModel.shufflePile(pile, style, shuffleRandom);
+    history.record({ type: 'shuffle', pile, before: result.before, after: result.after });
+    const startPositions = new Map(deck.cards.map(card => [card.cardId, card.position.clone()]));
+    const startIndices = new Map(result.before.map((cardId, i) => [cardId, i]));
+    deck.reorder(result.after.map(cardId => cardsById.get(cardId)!));
+
+    if (settings.get('reducedMotion')) {
+      finishInteraction();
       return;
     }
-    
-    // Find card with highest zIndex
-    let topCard: PIXI.Sprite | null = null;
-    let maxZ = -Infinity;
-    
-    for (const child of deck.children) {
-      if (child instanceof PIXI.Sprite) {
-        const zIndex = (child as any).zIndex ?? 0;
-        if (zIndex > maxZ) {
-          maxZ = zIndex;
-          topCard = child;
-        }
-      }
+
+    // Cards move aside together, then drop back one after another, bottom card first
+    const spread = cardTexture.width * cardScale;
+    const splitMs = SHUFFLE_DURATION_MS * SHUFFLE_SPLIT;
+    const dropMs = SHUFFLE_DURATION_MS * SHUFFLE_DROP;
+    const lastIndex = Math.max(1, deck.size - 1);
+    const handle = tweens.play(parallel(deck.cards.map((card, i) => {
+      const from = startPositions.get(card.cardId)!;
+      // Riffle splits the pile in two halves, a plain shuffle scatters the cards
+      const aside = style === 'riffle'
+        ? { x: from.x + (startIndices.get(card.cardId)! < result.cut ? -0.6 : 0.6) * spread, y: from.y }
+        : { x: from.x + (shuffleRandom() - 0.5) * spread, y: from.y + (shuffleRandom() - 0.5) * spread * 0.5 };
+      const target = deck.getStackPosition(i);
+      return sequence([
+        tween(card, { x: aside.x, y: aside.y }, { duration: splitMs, ease: 'quadOut', from: { x: from.x, y: from.y } }),
+        wait((SHUFFLE_DURATION_MS - splitMs - dropMs) * (i / lastIndex)),
+        tween(card, { x: target.x, y: target.y }, { duration: dropMs, ease: 'quadOut' })
+      ]);
+    })));
+    activeShuffle = handle;
+    handle.finished.then(completed => {
+      if (!completed) return;
+      activeShuffle = null;
+      // Snap to the current slots in case the screen was resized meanwhile
+      deck.restack();
+      finishInteraction();
+    });
+  }
+
+  addActionButton(scene, layout, 'Shuffle', () => shuffleFullestPile('shuffle'), -70);
+  addActionButton(scene, layout, 'Riffle', () => shuffleFullestPile('riffle'), 70);
+
+  // A running shuffle ends at once with the cards on their new slots
+  function settleShuffle() {
+    if (!activeShuffle) return;
+    activeShuffle.kill();
+    activeShuffle = null;
+    decks.forEach(deck => deck.restack());
+  }
+
+  // Finish every animation at once so the sprites match the model, e.g. before an undo or a save
+  function settleCards() {
+    deckModel.finishFlights();
+    if (activeDrag) {
+      const { card, originDeck } = activeDrag;
+      activeDrag = null;
+      card.scale.set(cardScale);
+      placeCard(card, originDeck);
     }
-    
-    // Update cache
-    if (deck === leftDeck) {
-      leftTopCard = topCard;
-    } else if (deck === rightDeck) {
-      rightTopCard = topCard;
+    if (activeReturn) {
+      const { card, originDeck, tween: handle } = activeReturn;
+      activeReturn = null;
+      handle.kill();
+      placeCard(card, originDeck);
     }
+    settleShuffle();
   }
 
-  // Only used when cached top card is not available
-  function getMaxZIndex(deck: PIXI.Container): number {
-    if (deck === leftDeck && leftTopCard) {
-      return (leftTopCard as any).zIndex ?? 0;
-    } else if (deck === rightDeck && rightTopCard) {
-      return (rightTopCard as any).zIndex ?? 0;
-    }
-    
-    // Fallback: calculate max zIndex
-    let max = -Infinity;
-    for (const child of deck.children) {
-      if (child instanceof PIXI.Sprite) {
-        const zIndex = (child as any).zIndex ?? 0;
-        max = Math.max(max, zIndex);
-      }
+  // Rebuild the decks that no longer match the model piles
+  function syncDecks() {
+    const changed = decks.filter((deck, pile) => {
+      const cardIds = deckModel.piles[pile];
+      return deck.size !== cardIds.length || deck.cards.some((card, i) => card.cardId !== cardIds[i]);
+    });
+    changed.forEach(deck => {
+      while (deck.size > 0) deck.pop();
+    });
+    changed.forEach(deck => {
+      const pile = decks.indexOf(deck);
+      deckModel.piles[pile].forEach(cardId => {
+        const card = cardsById.get(cardId)!;
+        card.setFaceUp(isFaceUpPile(pile));
+        card.scale.set(cardScale);
+        deck.push(card);
+      });
+    });
+  }
+
+  // Undo and redo stop automatic moves until Resume, so the rewound piles stay put
+  let rewound = false;
+  // Keys are ignored while an overlay covers the scene
+  let covered = false;
+
+  function stepHistory(direction: 'undo' | 'redo') {
+    deckModel.pause();
+    settleCards();
+    const action = direction === 'undo' ? history.undo(deckModel.piles) : history.redo(deckModel.piles);
+    if (action) {
+      syncDecks();
+      rewound = true;
+      resumeButton.visible = true;
     }
-    return max === -Infinity ? -1 : max;
+    finishInteraction();
   }
 
-  let lastMoveTime = performance.now();
-  const moveInterval = 1000;
-  let movingLeftToRight = true;
+  function resumeMoves() {
+    rewound = false;
+    resumeButton.visible = false;
+    finishInteraction();
+  }
 
-  // Ticker to update all card animations
-  const animationTicker = () => {
-    const now = performance.now();
-    
-    // Update all active card animations
-    for (let i = activeCardAnimations.length - 1; i >= 0; i--) {
-      const anim = activeCardAnimations[i];
-      
-      // Check if card is still valid
-      if (!anim.card || anim.card.destroyed) {
-        activeCardAnimations.splice(i, 1);
-        continue;
-      }
-      
-      // Calculate animation progress (0 to 1)
-      const elapsed = now - anim.startTime;
-      const t = Math.min(1, elapsed / anim.durationMs);
-      
-      // Quadratic bezier curve
-      const inv = 1 - t;
-      const x = inv * inv * anim.sourceX + 2 * inv * t * anim.midX + t * t * anim.targetX;
-      const y = inv * inv * anim.sourceY + 2 * inv * t * anim.midY + t * t * anim.targetY;
-      
-      anim.card.x = x;
-      anim.card.y = y;
-      
-      // Check if animation is complete
-      if (t >= 1) {
-        // Add card to target deck
-        if (anim.card && !anim.card.destroyed) {
-          const finalLocal = anim.targetDeck.toLocal({ x: anim.card.x, y: anim.card.y }, app.stage);
-          anim.card.x = finalLocal.x;
-          anim.card.y = finalLocal.y;
-          
-          // Remove from stage and add to target deck
-          if (anim.card.parent === app.stage) {
-            app.stage.removeChild(anim.card);
-          }
-          animatingCards.delete(anim.card);
-          addCardToTop(anim.targetDeck, anim.card);
-        }
-        
-        // Remove completed animation
-        activeCardAnimations.splice(i, 1);
-      }
+  addActionButton(scene, layout, 'Undo', () => stepHistory('undo'), -210);
+  addActionButton(scene, layout, 'Redo', () => stepHistory('redo'), 210);
+  const resumeButton = addActionButton(scene, layout, 'Resume', resumeMoves, 0, -84);
+  resumeButton.visible = false;
+
+  // Ctrl+Z undoes, Ctrl+Y or Ctrl+Shift+Z redoes, Cmd on macOS
+  const onKeyDown = (event: KeyboardEvent) => {
+    if (covered || !(event.ctrlKey || event.metaKey)) return;
+    const key = event.key.toLowerCase();
+    if (key === 'z' && !event.shiftKey) {
+      stepHistory('undo');
+    } else if (key === 'y' || key === 'z') {
+      stepHistory('redo');
+    } else {
+      return;
     }
+    event.preventDefault();
   };
+  window.addEventListener('keydown', onKeyDown);
 
-  // Ticker to move cards between decks
-  const aceTicker = () => {
-    const now = performance.now();
-    
-    // Wait for previous animation to complete
-    if (activeCardAnimations.length > 0) return;
-    
-    // Check if it's time to move next card
-    if (now - lastMoveTime < moveInterval) return;
-    
-    // If left deck is empty, move right to left
-    if (leftDeck.children.length === 0) {
-      movingLeftToRight = false;
-    } else if (rightDeck.children.length === 0) {
-      movingLeftToRight = true;
+  // Cards in the air and in hand are saved where they would end up
+  function saveDeck() {
+    settleCards();
+    saveDeckSnapshot(SNAPSHOT_KEY, createDeckSnapshot(deckModel, history.getState()));
+  }
+
+  // Closing the tab does not exit the scene
+  window.addEventListener('pagehide', saveDeck);
+
+  // Add or remove cards while the simulation runs, removed cards come off the fullest piles.
+  // Earlier moves no longer match the piles, so the history starts over.
+  function setCardCount(count: number) {
+    // Shuffle and layout tweens must not move cards that are about to go, or restack
+    // piles that change under them. arrangePiles below puts the final slots in place.
+    settleShuffle();
+    activeArrange?.kill();
+    activeArrange = null;
+    history.clear();
+    const difference = count - deckModel.cardCount;
+    if (difference > 0) {
+      deckModel.addCards(difference).forEach(cardId => decks[0].push(createCard(cardId)));
+    } else if (difference < 0) {
+      deckModel.removeCards(-difference).forEach(({ pile, cardId }) => {
+        const card = cardsById.get(cardId)!;
+        decks[pile].remove(card);
+        cardsById.delete(cardId);
+        card.destroy();
+      });
     }
-    
-    const sourceDeck = movingLeftToRight ? leftDeck : rightDeck;
-    const targetDeck = movingLeftToRight ? rightDeck : leftDeck;
-    
-    // Get top card from source deck
-    const card = getTopCard(sourceDeck);
-    if (!card) return;
-    
-    // Remove card from source deck
-    sourceDeck.removeChild(card);
-    
-    // Update cached top card reference
-    updateTopCardCache(sourceDeck);
-    
-    // Add card to stage for animation
-    app.stage.addChild(card);
-    animatingCards.add(card);
-    
-    // Get current global position
-    const sourceGlobal = sourceDeck.toGlobal({ x: card.x, y: card.y });
-    card.x = sourceGlobal.x;
-    card.y = sourceGlobal.y;
-    
-    // Calculate target position
-    const targetStackOffset = targetDeck.children.length * STACK_OFFSET;
-    const targetLocal = { x: targetStackOffset, y: targetStackOffset };
-    const targetGlobal = targetDeck.toGlobal(targetLocal);
-    
-    // Animate card movement
-    const finalTargetX = targetGlobal.x + (Math.random() - 0.5) * 6;
-    const finalTargetY = targetGlobal.y + (Math.random() - 0.5) * 6;
-    
-    // Add vertical offset in the middle of the path
-    const arcHeight = 40;
-    const midX = (sourceGlobal.x + finalTargetX) / 2;
-    const midY = Math.min(sourceGlobal.y, finalTargetY) - arcHeight;
-    
-    const startTime = performance.now();
-    const durationMs = 2000;
-    
-    // Add animation to active animations array
-    activeCardAnimations.push({
-      card,
-      startTime,
-      durationMs,
-      sourceX: sourceGlobal.x,
-      sourceY: sourceGlobal.y,
-      midX,
-      midY,
-      targetX: finalTargetX,
-      targetY: finalTargetY,
-      targetDeck
-    });
-    
-    lastMoveTime = now;
-  };
-  
-  // Register ticker functions
-  app.ticker.add(aceTicker);
-  app.ticker.add(animationTicker);
-  if (!sceneTickers['ace']) sceneTickers['ace'] = [];
-  sceneTickers['ace'].push(aceTicker);
-  sceneTickers['ace'].push(animationTicker);
-
-  // Handle window resize
-  const resizeHandler = () => {
-    if (leftDeck && !leftDeck.destroyed) {
-      leftDeck.x = app.renderer.width * 0.25;
-      leftDeck.y = app.renderer.height / 2;
+    cardTotal = deckModel.cardCount;
+    arrangePiles();
+    finishInteraction();
+  }
+
+  // Control panel for tuning the feel and stress-testing the animation
+  const MAX_FLIGHTS_LIMIT = 50;
+  let severalFlights = 8;
+  const panel = createControlPanel('Ace of Shadows');
+  panel.container.visible = false;
+  scene.addChild(panel.container);
+  layout.pin(panel.container, 'top-left', 20, 60);
+
+  panel.addSlider({
+    label: 'Cards', min: 1, max: 1000, step: 1, value: cardTotal,
+    onChange: setCardCount
+  });
+  panel.addSlider({
+    label: 'Stack offset', min: 0, max: 3, step: 0.1, value: STACK_OFFSET,
+    format: value => value.toFixed(1),
+    onChange: value => {
+      stackOffset = value;
+      arrangePiles();
     }
-    if (rightDeck && !rightDeck.destroyed) {
-      rightDeck.x = app.renderer.width * 0.65;
-      rightDeck.y = app.renderer.height / 2;
+  });
+  panel.addSlider({
+    label: 'Move interval', min: 0, max: 3000, step: 50, value: moveInterval,
+    format: value => `${value} ms`,
+    onChange: value => deckModel.setTuning({ moveInterval: value })
+  });
+  panel.addSlider({
+    label: 'Flight duration', min: 100, max: 5000, step: 100, value: durationMs,
+    format: value => `${value} ms`,
+    onChange: value => deckModel.setTuning({ durationMs: value })
+  });
+  panel.addToggle({
+    label: '3D flights', value: flightLook === '3d',
+    onChange: value => (flightLook = value ? '3d' : 'flat')
+  });
+  panel.addSlider({
+    label: 'Arc height', min: 0, max: 200, step: 5, value: ARC_HEIGHT,
+    onChange: value => (arcHeight = value)
+  });
+  const oneAtATime = panel.addToggle({
+    label: 'One card at a time', value: true,
+    onChange: value => deckModel.setTuning({ maxFlights: value ? 1 : severalFlights })
+  });
+  panel.addSlider({
+    label: 'Cards in flight', min: 2, max: MAX_FLIGHTS_LIMIT, step: 1, value: severalFlights,
+    onChange: value => {
+      // Moving the slider lifts the one card rule
+      severalFlights = value;
+      oneAtATime.setValue(false);
+      deckModel.setTuning({ maxFlights: value });
     }
-  };
-  window.addEventListener('resize', resizeHandler);
-  
-  // Store cleanup function on scene
-  (scene as any).cleanup = () => {
-    window.removeEventListener('resize', resizeHandler);
-    
-    // Clean up all animating cards from stage
-    animatingCards.forEach(card => {
-      if (card && !card.destroyed && card.parent === app.stage) {
-        app.stage.removeChild(card);
+  });
+
+  addActionButton(scene, layout, 'Tune', () => {
+    panel.container.visible = !panel.container.visible;
+  }, 80, 30, 'top-left');
+  addActionButton(scene, layout, 'Layout', () => {
+    setArrangement(CARD_LAYOUT_MODES[(CARD_LAYOUT_MODES.indexOf(cardArrangement) + 1) % CARD_LAYOUT_MODES.length]);
+  }, 210, 30, 'top-left');
+
+  // Card count and top card below every deck
+  const deckLabels = decks.map(() => {
+    const label = new PIXI.Text({ text: '', style: { fontSize: 14, fill: '#bbbbbb' } });
+    label.anchor.set(0.5, 0);
+    scene.addChild(label);
+    return label;
+  });
+
+  function updateDeckLabels() {
+    decks.forEach((deck, i) => {
+      const top = deck.peek();
+      const text = top && top.faceUp ? `${deck.size} cards, top ${cardLabel(top.face)}` : `${deck.size} cards`;
+      const label = deckLabels[i];
+      if (label.text !== text) {
+        label.text = text;
       }
+      // Below the lowest card, stacks run diagonally and the other layouts are centered
+      const first = deck.getStackPosition(0);
+      const end = deck.getStackPosition(Math.max(0, deck.size - 1));
+      label.x = deck.container.x + (cardArrangement === 'stack' ? end.x : 0);
+      label.y = deck.container.y + Math.max(first.y, end.y) + cardTexture.height * cardScale / 2 + 8;
     });
-    animatingCards.clear(); // Clear Set
-    
-    // Clear all active card animations
-    activeCardAnimations.length = 0;
+  }
+
+  // Ticker to advance the simulation, which launches and lands cards
+  const aceTicker = () => {
+    clock.advance(app.ticker.deltaMS);
+    deckModel.update();
+    updateDeckLabels();
   };
 
-  return scene;
+  // Register ticker functions
+  addSceneTicker(app, sceneTickers, 'ace', 'deck', aceTicker);
+
+  return {
+    container: scene,
+
+    exit() {
+      deckModel.pause();
+      saveDeck();
+    },
+
+    pause() {
+      covered = true;
+    },
+
+    resume() {
+      covered = false;
+    },
+
+    destroy() {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('pagehide', saveDeck);
+      // Animating cards are scene children and get destroyed with it
+      animatingCards.clear(); // Clear Set
+      
+      // Clear all active card animations
+      activeCardAnimations.forEach(anim => anim.effect?.destroy());
+      activeCardAnimations.length = 0;
+      flightEffects.destroy();
+      activeDrag = null;
+      activeReturn = null;
+      activeShuffle = null;
+      faceAtlas.destroy();
+    }
+  };
 }
 
+registerScene({
+  id: 'ace',
+  label: 'Ace of Shadows',
+  order: 1,
+  transition: 'slide',
+  bundles: ['ace'],
+  factory: createAceScene
+});
+
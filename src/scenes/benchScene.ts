@@ -0,0 +1,259 @@
+import * as PIXI from 'pixi.js';
+import { Assets } from 'pixi.js';
+import { createRampBenchmark } from '../benchmark';
+import { createCardFaceAtlas } from '../cards/cardFaces';
+import { CARD_RENDER_MODES, CardRenderer, createCardRenderer } from '../cards/cardRenderers';
+import { computePileLayout } from '../cards/pileLayout';
+import { faceForCard } from '../cards/playingCards';
+import { choiceParam, numberParam } from '../router';
+import { createManualClock } from '../simulation/core';
+import { createDeckModel } from '../simulation/deckModel';
+import { addActionButton, addBackToMenuButton, addPauseButton, addSettingsButton, addSceneTicker } from '../utils';
+import { Scene, SceneContext, SceneParams, registerScene } from './sceneRegistry';
+
+// URL params: render (particles, sprites), cards (start count), max (last count),
+// piles, budget (ms per frame that counts as degraded), ramp (0 keeps the start count)
+export function createBenchScene(
+  { app, layout, settings, sceneTickers, switchToScene, pushScene }: SceneContext,
+  params: SceneParams
+): Scene {
+  const scene = new PIXI.Container();
+
+  const START_COUNT = Math.round(numberParam(params, 'cards', 1000, 1, 200000));
+  const MAX_COUNT = Math.round(numberParam(params, 'max', 100000, START_COUNT, 200000));
+  const PILE_COUNT = Math.round(numberParam(params, 'piles', 8, 2, 32));
+  const FRAME_BUDGET_MS = numberParam(params, 'budget', 20, 1, 100);
+  const ramps = numberParam(params, 'ramp', 1, 0, 1) > 0;
+  let renderMode = choiceParam(params, 'render', CARD_RENDER_MODES, 'particles');
+
+  const CARD_SCALE = 0.3;
+  // Longest a pile may stack at scale 1, thousands of cards share it
+  const MAX_STACK_EXTENT = 150;
+  const TOP_BAR_HEIGHT = 110;
+  const FLIP_START = 0.3;
+  const FLIP_END = 0.7;
+  const ARC_HEIGHT = 40;
+
+  const cardTexture = Assets.get('card') as PIXI.Texture;
+  // Faces and back share one texture source, as a ParticleContainer needs
+  const atlas = createCardFaceAtlas(app, cardTexture.width, cardTexture.height, cardTexture);
+  const backTexture = atlas.backTexture!;
+  const faceTextures = Array.from({ length: 52 }, (_, i) => atlas.getTexture(faceForCard(i)));
+
+  const cardLayer = new PIXI.Container();
+  scene.addChild(cardLayer);
+  let renderer: CardRenderer = createCardRenderer(renderMode, atlas.texture);
+  cardLayer.addChild(renderer.container);
+
+  // Cards fly between random piles, many at once
+  const clock = createManualClock();
+  const deckModel = createDeckModel({
+    cardCount: START_COUNT,
+    pileCount: PILE_COUNT,
+    order: 'random',
+    moveInterval: 0,
+    durationMs: 800,
+    maxFlights: 64,
+    clock,
+    random: Math.random
+  });
+
+  let benchmark = createRampBenchmark({
+    startCount: START_COUNT,
+    maxCount: MAX_COUNT,
+    frameBudgetMs: FRAME_BUDGET_MS
+  });
+
+  // Pile positions, recomputed when the card count or screen size changes
+  let positions: { x: number; y: number }[] = [];
+  let stackOffset = { x: 0, y: 0 };
+  let cardScale = CARD_SCALE;
+
+  function arrangePiles() {
+    const { x, y, width, height } = layout.viewport;
+    const pileSize = Math.ceil(deckModel.cardCount / PILE_COUNT);
+    const pileLayout = computePileLayout(
+      'grid',
+      PILE_COUNT,
+      { x, y: y + TOP_BAR_HEIGHT, width, height: height - TOP_BAR_HEIGHT },
+      {
+        cardWidth: cardTexture.width * CARD_SCALE,
+        cardHeight: cardTexture.height * CARD_SCALE,
+        maxPileSize: pileSize,
+        stackOffset: Math.min(0.6, MAX_STACK_EXTENT / Math.max(1, pileSize))
+      }
+    );
+    positions = pileLayout.positions;
+    stackOffset = pileLayout.stackOffset;
+    cardScale = CARD_SCALE * pileLayout.scale;
+  }
+
+  layout.onResize(scene, arrangePiles);
+
+  // New cards are spread over all piles, removed ones come off the fullest piles
+  function setCardCount(count: number) {
+    const difference = count - deckModel.cardCount;
+    if (difference > 0) {
+      for (let pile = 0; pile < PILE_COUNT; pile++) {
+        const share = Math.floor(difference / PILE_COUNT) + (pile < difference % PILE_COUNT ? 1 : 0);
+        deckModel.addCards(share, pile);
+      }
+    } else if (difference < 0) {
+      deckModel.removeCards(-difference);
+    }
+    arrangePiles();
+  }
+
+  // The first pile is face down, like in Ace of Shadows
+  function textureFor(cardId: number, faceUp: boolean): PIXI.Texture {
+    return faceUp ? faceTextures[faceForCard(cardId).index] : backTexture;
+  }
+
+  // Every card is drawn every frame, piles bottom to top and then the cards in the air
+  function drawCards() {
+    renderer.begin();
+    deckModel.piles.forEach((pile, p) => {
+      const origin = positions[p];
+      const texture = p === 0 ? backTexture : null;
+      for (let i = 0; i < pile.length; i++) {
+        renderer.draw(
+          texture ?? textureFor(pile[i], true),
+          origin.x + i * stackOffset.x,
+          origin.y + i * stackOffset.y,
+          cardScale,
+          cardScale
+        );
+      }
+    });
+
+    const arcHeight = settings.get('reducedMotion') ? 0 : ARC_HEIGHT;
+    deckModel.flights.forEach(flight => {
+      const t = deckModel.getFlightProgress(flight);
+      const from = positions[flight.from];
+      const to = positions[flight.to];
+      const sourceX = from.x + flight.sourceIndex * stackOffset.x;
+      const sourceY = from.y + flight.sourceIndex * stackOffset.y;
+      // The slot moves when cards are added to or removed from the pile mid-flight
+      const targetIndex = deckModel.getTargetIndex(flight);
+      const targetX = to.x + targetIndex * stackOffset.x;
+      const targetY = to.y + targetIndex * stackOffset.y;
+      const midX = (sourceX + targetX) / 2;
+      const midY = Math.min(sourceY, targetY) - arcHeight;
+
+      // Quadratic bezier, written out to keep the frame free of allocations
+      const inv = 1 - t;
+      const x = inv * inv * sourceX + 2 * inv * t * midX + t * t * targetX;
+      const y = inv * inv * sourceY + 2 * inv * t * midY + t * t * targetY;
+
+      // Cards turn over on the way when the piles show different sides
+      const startsFaceUp = flight.from !== 0;
+      const endsFaceUp = flight.to !== 0;
+      let faceUp = startsFaceUp;
+      let scaleX = cardScale;
+      if (startsFaceUp !== endsFaceUp) {
+        const flip = Math.min(1, Math.max(0, (t - FLIP_START) / (FLIP_END - FLIP_START)));
+        faceUp = flip < 0.5 ? startsFaceUp : endsFaceUp;
+        scaleX = cardScale * Math.abs(Math.cos(flip * Math.PI));
+      }
+      renderer.draw(textureFor(flight.cardId, faceUp), x, y, scaleX, cardScale);
+    });
+    renderer.end();
+  }
+
+  // Status and result
+  const statusText = new PIXI.Text({ text: '', style: { fontSize: 18, fill: '#ffffff', lineHeight: 24 } });
+  scene.addChild(statusText);
+  layout.pin(statusText, 'top-left', 20, 12);
+
+  // Frame times of the last second for the live readout
+  const recentFrames: number[] = [];
+  // Redrawing text is not free, so the readout refreshes a few times per second
+  const STATUS_INTERVAL_MS = 250;
+  let statusElapsed = STATUS_INTERVAL_MS;
+
+  function updateStatus() {
+    const average = recentFrames.reduce((sum, ms) => sum + ms, 0) / Math.max(1, recentFrames.length);
+    const lines = [
+      `Renderer: ${renderMode}    Cards: ${deckModel.cardCount}    In flight: ${deckModel.flights.length}`,
+      `Frame: ${average.toFixed(1)} ms (${average > 0 ? Math.round(1000 / average) : 0} FPS), budget ${FRAME_BUDGET_MS} ms`
+    ];
+    const result = benchmark.result;
+    if (!ramps) {
+      lines.push('Fixed card count');
+    } else if (result) {
+      lines.push(result.reason === 'degraded'
+        ? `Result: ${result.maxCount} cards within budget, ${benchmark.count} were too slow`
+        : `Result: ${result.maxCount} cards, the maximum, stayed within budget`);
+    } else {
+      lines.push(`Ramping: step ${benchmark.steps.length + 1}`);
+    }
+    statusText.text = lines.join('\n');
+  }
+
+  function restartBenchmark() {
+    benchmark = createRampBenchmark({ startCount: START_COUNT, maxCount: MAX_COUNT, frameBudgetMs: FRAME_BUDGET_MS });
+    setCardCount(START_COUNT);
+  }
+
+  function switchRenderer() {
+    renderMode = CARD_RENDER_MODES[(CARD_RENDER_MODES.indexOf(renderMode) + 1) % CARD_RENDER_MODES.length];
+    renderer.container.destroy({ children: true });
+    renderer = createCardRenderer(renderMode, atlas.texture);
+    cardLayer.addChild(renderer.container);
+    if (ramps) restartBenchmark();
+  }
+
+  addBackToMenuButton(scene, layout, switchToScene);
+  addPauseButton(scene, layout, pushScene);
+  addSettingsButton(scene, layout, pushScene);
+  addActionButton(scene, layout, 'Renderer', switchRenderer, -80, 80, 'top-right');
+  addActionButton(scene, layout, 'Restart', restartBenchmark, -210, 80, 'top-right');
+
+  const benchTicker = () => {
+    const frameMs = app.ticker.deltaMS;
+    recentFrames.push(frameMs);
+    let total = recentFrames.reduce((sum, ms) => sum + ms, 0);
+    while (total > 1000 && recentFrames.length > 1) {
+      total -= recentFrames.shift()!;
+    }
+
+    if (ramps && !benchmark.isDone) {
+      const count = benchmark.addFrame(frameMs);
+      if (benchmark.isDone) {
+        // Settle on the highest count that kept up
+        setCardCount(Math.max(1, benchmark.result!.maxCount));
+      } else if (count !== deckModel.cardCount) {
+        setCardCount(count);
+      }
+    }
+
+    clock.advance(frameMs);
+    deckModel.update();
+    drawCards();
+
+    statusElapsed += frameMs;
+    if (statusElapsed >= STATUS_INTERVAL_MS) {
+      statusElapsed = 0;
+      updateStatus();
+    }
+  };
+
+  addSceneTicker(app, sceneTickers, 'bench', 'cards', benchTicker);
+
+  return {
+    container: scene,
+
+    destroy() {
+      atlas.destroy();
+    }
+  };
+}
+
+registerScene({
+  id: 'bench',
+  label: 'Card Benchmark',
+  order: 5,
+  transition: 'fade',
+  bundles: ['ace'],
+  factory: createBenchScene
+});
@@ -0,0 +1,10 @@
+// Scene modules register themselves on import
+import './menuScene';
+import './aceScene';
+import './magicScene';
+import './phoenixScene';
+import './warScene';
+import './benchScene';
+import './pauseScene';
+import './settingsScene';
+import './loadingScene';
@@ -0,0 +1,56 @@
+import * as PIXI from 'pixi.js';
+import { onLoadProgress } from '../assets';
+import { Scene, SceneContext, registerScene } from './sceneRegistry';
+
+const BAR_WIDTH = 400;
+const BAR_HEIGHT = 16;
+
+// Scene: Loading screen, shown while the next scene's bundles load
+export function createLoadingScene({ layout }: SceneContext): Scene {
+  const scene = new PIXI.Container();
+  let stopListening: (() => void) | null = null;
+
+  const panel = new PIXI.Container();
+  scene.addChild(panel);
+
+  const label = new PIXI.Text({ text: 'Loading... 0%', style: { fontSize: 20, fill: '#ffffff' } });
+  label.anchor.set(0.5, 1);
+  label.y = -20;
+  panel.addChild(label);
+
+  const barBackground = new PIXI.Graphics();
+  barBackground.roundRect(-BAR_WIDTH / 2, 0, BAR_WIDTH, BAR_HEIGHT, 4).fill(0x222222);
+  panel.addChild(barBackground);
+
+  const barFill = new PIXI.Graphics();
+  panel.addChild(barFill);
+
+  function setProgress(progress: number) {
+    if (barFill.destroyed) return;
+    const clamped = Math.max(0, Math.min(1, progress));
+    barFill.clear();
+    if (clamped > 0) {
+      barFill.roundRect(-BAR_WIDTH / 2, 0, BAR_WIDTH * clamped, BAR_HEIGHT, 4).fill(0x4caf50);
+    }
+    label.text = `Loading... ${Math.round(clamped * 100)}%`;
+  }
+
+  layout.pin(panel, 'center');
+
+  return {
+    container: scene,
+
+    create() {
+      stopListening = onLoadProgress(setProgress);
+    },
+
+    destroy() {
+      stopListening?.();
+    }
+  };
+}
+
+registerScene({
+  id: 'loading',
+  factory: createLoadingScene
+});
@@ -1,41 +1,102 @@
 import * as PIXI from 'pixi.js';
 import { Assets } from 'pixi.js';
-import { addBackToMenuButton, createRichTextContainer, addFpsCounter } from '../utils';
+import { addRuntimeBundle, unloadRuntimeBundle } from '../assets';
+import { createBacklogPanel } from '../backlogPanel';
+import { makeFocusable } from '../input';
+import { createIssuePanel } from '../issuePanel';
+import { choiceParam, numberParam } from '../router';
+import {
+  AvailableChoice,
+  DialogueRunner,
+  DialogueState,
+  createDialogueRunner,
+  loadDialogueGraph
+} from '../simulation/dialogueModel';
+import {
+  DialogueSource,
+  createCacheSource,
+  createFixtureSource,
+  createHttpSource,
+  createPayloadCache,
+  isAbortError,
+  loadFromSources
+} from '../simulation/dialogueSource';
+import { SchemaIssue, checkMagicWordsReferences, validateMagicWordsData } from '../simulation/magicWordsSchema';
+import { DEFAULT_TYPEWRITER_PAUSES, TypewriterOptions } from '../simulation/typewriter';
+import {
+  TypewriterReveal,
+  addActionButton,
+  addBackToMenuButton,
+  addPauseButton,
+  addSettingsButton,
+  createRichTextContainer,
+  createTypewriterReveal
+} from '../utils';
+import { Scene, SceneContext, SceneParams, registerScene } from './sceneRegistry';
 
 const MAGIC_WORDS_API = 'https://private-624120-softgamesassignment.apiary-mock.com/v2/magicwords';
+const CACHE_KEY = 'pixi-demo-magic-words';
 
-async function fetchMagicWordsData() {
-  const res = await fetch(MAGIC_WORDS_API);
-  if (!res.ok) throw new Error('Network response not ok: ' + res.status);
-  const data = await res.json();
-  return data;
-}
+// auto: the network, then the saved copy, then the bundled fixture; the others use one source
+type SourceChoice = 'auto' | 'http' | 'cache' | 'fixture';
+const SOURCE_CHOICES: SourceChoice[] = ['auto', 'http', 'cache', 'fixture'];
 
+// URL params: source (auto, http, cache, fixture), speed (typed characters per second, 0 shows
+// lines at once), pause (multiplier on the stops after punctuation), rewind (1 lets history
+// clicks go back from the start)
 export function createMagicScene(
-  app: PIXI.Application,
-  switchToScene: (id: string) => void,
-  sceneTickers?: { [key: string]: (() => void)[] }
-): PIXI.Container {
+  { app, layout, settings, sceneTickers, switchToScene, pushScene }: SceneContext,
+  params: SceneParams
+): Scene {
   const scene = new PIXI.Container();
   
-  // Create sceneTickers if not provided
-  const tickers = sceneTickers || {};
-  
-  addFpsCounter(scene, app, tickers, 'magic');
-  addBackToMenuButton(scene, app, switchToScene);
+  addBackToMenuButton(scene, layout, switchToScene);
+  addPauseButton(scene, layout, pushScene);
+  addSettingsButton(scene, layout, pushScene);
 
   // Dialogue message container
   const messageContainer = new PIXI.Container();
   scene.addChild(messageContainer);
 
   // dialogue system state
-  let dialogueData: any[] = [];
+  let dialogue: DialogueRunner = createDialogueRunner(loadDialogueGraph([]));
   let emojiMap: Record<string, string> = {};
   let avatars: Record<string, string> = {};
-  let currentMessageIndex = 0;
   
   // Cache for emoji textures
   const emojiTextureCache: Record<string, PIXI.Texture> = {};
+  // Runtime bundle holding the emoji and avatar textures
+  let dialogueBundle: string | null = null;
+  let destroyed = false;
+
+  // Sources in the order they are tried, the network request ends with the scene
+  const cache = createPayloadCache(CACHE_KEY);
+  const http = createHttpSource(MAGIC_WORDS_API);
+  const sourceChoice = choiceParam(params, 'source', SOURCE_CHOICES, 'auto');
+  const sources: DialogueSource[] = {
+    auto: [http, createCacheSource(cache), createFixtureSource()],
+    http: [http],
+    cache: [createCacheSource(cache)],
+    fixture: [createFixtureSource()]
+  }[sourceChoice];
+  const loading = new AbortController();
+
+  const pauseScale = numberParam(params, 'pause', 1, 0, 10);
+  const typing: TypewriterOptions = {
+    charsPerSecond: numberParam(params, 'speed', 40, 0, 1000),
+    pauses: Object.fromEntries(Object.entries(DEFAULT_TYPEWRITER_PAUSES).map(([char, ms]) => [char, ms * pauseScale]))
+  };
+  // Reveal of the line on screen, clicks complete it before they advance
+  let reveal: TypewriterReveal | null = null;
+
+  // Lines shown and choices made so far, with the run as it was at each of them
+  interface HistoryEntry {
+    name: string;
+    text: string;
+    choice: boolean;
+    state: DialogueState;
+  }
+  let history: HistoryEntry[] = [];
 
   // Show "Connecting..." message while loading data
   const connectingText = new PIXI.Text({ 
@@ -43,58 +104,65 @@ export function createMagicScene(
     style: { fontSize: 24, fill: '#ffffff' } 
   });
   connectingText.anchor.set(0.5);
-  connectingText.x = app.renderer.width / 2;
-  connectingText.y = app.renderer.height / 2;
+  connectingText.x = layout.getAnchor('center').x;
+  connectingText.y = layout.getAnchor('center').y;
   messageContainer.addChild(connectingText);
 
-  // Function to render a single message
-  function renderMessage(index: number) {
-    // Clear previous message
-    messageContainer.removeChildren();
+  // Developer panel with the problems found in the payload, opened by the Data button
+  const issuePanel = createIssuePanel();
+  issuePanel.container.visible = false;
+  scene.addChild(issuePanel.container);
+  layout.pin(issuePanel.container, 'top-left', 20, 60);
 
-    if (index >= dialogueData.length) {
-      // All messages shown
-      const endText = new PIXI.Text({ 
-        text: 'End of dialogue', 
-        style: { fontSize: 24, fill: '#ffffff' } 
-      });
-      endText.anchor.set(0.5);
-      endText.x = app.renderer.width / 2;
-      endText.y = app.renderer.height / 2;
-      messageContainer.addChild(endText);
-      return;
+  const issuesButton = addActionButton(scene, layout, 'Data', () => {
+    issuePanel.container.visible = !issuePanel.container.visible;
+  }, 80, 30, 'top-left');
+  issuesButton.visible = false;
+
+  // Which source the dialogue came from
+  const sourceText = new PIXI.Text({ text: '', style: { fontSize: 14, fill: '#aaaaaa' } });
+  sourceText.anchor.set(0, 1);
+  scene.addChild(sourceText);
+  layout.pin(sourceText, 'bottom-left', 20, -16);
+
+  function showSource(source: DialogueSource, savedAt?: number) {
+    const age = savedAt ? ` from ${new Date(savedAt).toLocaleString()}` : '';
+    sourceText.text = `Source: ${source.label}${age}`;
+    sourceText.style.fill = source.kind === 'http' ? '#aaaaaa' : '#ffd54f';
+  }
+
+  // Errors open the panel, warnings only make the button appear
+  function showIssues(title: string, issues: SchemaIssue[]) {
+    if (issues.length === 0) return;
+    issues.forEach(issue => console.warn(`Magic Words data ${issue.severity} at ${issue.path}: ${issue.message}`));
+    issuePanel.setIssues(title, issues);
+    issuesButton.visible = true;
+    if (issues.some(issue => issue.severity === 'error')) {
+      issuePanel.container.visible = true;
     }
+  }
 
-    const msg = dialogueData[index];
-    
-    // Parse character name
-    const characterName = msg.name || msg.character || msg.speaker || 'Unknown';
-    
-    // Parse dialogue text
-    const dialogueText = msg.text || msg.dialogue || msg.message || '';
-    
+  // Short note in the middle of the screen, e.g. when there is nothing to show
+  function showNotice(text: string, color = '#ffffff') {
+    messageContainer.removeChildren();
+    const notice = new PIXI.Text({ text, style: { fontSize: 20, fill: color, align: 'center' } });
+    notice.anchor.set(0.5);
+    notice.x = layout.getAnchor('center').x;
+    notice.y = layout.getAnchor('center').y;
+    messageContainer.addChild(notice);
+  }
+
+  // Avatar of a speaker scaled into a square, a grey placeholder when there is none
+  function createAvatarView(characterName: string, avatarSize: number) {
     // Get avatar from avatars object using character name
     const avatarUrl = avatars[characterName];
-    
-    // Create message box container
-    const box = new PIXI.Container();
-    const padding = 20;
-    const avatarSize = 80;
-    const avatarSpacing = 20;
-    const sideMargin = 40;
-    const maxTextWidth = Math.min(600, app.renderer.width - avatarSize - avatarSpacing - sideMargin * 2);
-    
-    box.x = sideMargin;
-    box.y = app.renderer.height / 2 - 100;
-
-    // Add avatar on the left
     const avatarContainer = new PIXI.Container();
     if (avatarUrl) {
       try {
         // Get texture from Assets bundle using alias
         const avatarAlias = `avatar_${characterName}`;
         let tex: PIXI.Texture | null = null;
-        
+      
         // Try to get from Assets cache
         if (Assets.cache.has(avatarAlias)) {
           const asset = Assets.get(avatarAlias);
@@ -102,13 +170,13 @@ export function createMagicScene(
             tex = asset;
           }
         }
-        
+      
         // Fallback to direct URL if not in bundle or invalid
         if (!tex) {
           console.warn('Avatar not found in bundle, using direct URL:', avatarUrl);
           tex = PIXI.Texture.from(avatarUrl);
         }
-        
+      
         // Verify texture is valid before creating sprite
         if (tex && tex.source) {
           const avatarSprite = new PIXI.Sprite(tex);
@@ -131,14 +199,61 @@ export function createMagicScene(
         console.warn('Failed to load avatar:', avatarUrl, e);
       }
     }
-    
+  
     // If no avatar or failed to load, create placeholder
     if (avatarContainer.children.length === 0) {
       const placeholder = new PIXI.Graphics();
       placeholder.rect(0, 0, avatarSize, avatarSize).fill(0x333333);
       avatarContainer.addChild(placeholder);
     }
+
+    return avatarContainer;
+  }
+
+  // Function to render the line under the dialogue cursor, typed out or shown at once
+  function renderMessage(typed = false) {
+    // Clear previous message
+    messageContainer.removeChildren();
+    reveal = null;
+
+    const msg = dialogue.current();
+    const choices = dialogue.choices();
+    if (dialogue.isFinished || (!msg && choices.length === 0)) {
+      // All messages shown, graphs name the ending that was reached
+      const endText = new PIXI.Text({ 
+        text: dialogue.ending ? `Ending: ${dialogue.ending}` : 'End of dialogue', 
+        style: { fontSize: 24, fill: '#ffffff' } 
+      });
+      endText.anchor.set(0.5);
+      endText.x = layout.getAnchor('center').x;
+      endText.y = layout.getAnchor('center').y;
+      messageContainer.addChild(endText);
+      return;
+    }
+
+    const textScale = settings.get('textScale');
+    if (!msg) {
+      // Choices before the first line
+      renderChoices(choices, layout.viewport.x + 40, layout.getAnchor('center').y - 100, textScale);
+      return;
+    }
+
+    const characterName = msg.name;
+    const dialogueText = msg.text;
     
+    // Create message box container
+    const box = new PIXI.Container();
+    const padding = 20;
+    const avatarSize = 80;
+    const avatarSpacing = 20;
+    const sideMargin = 40;
+    const maxTextWidth = Math.min(600, layout.viewport.width - avatarSize - avatarSpacing - sideMargin * 2);
+    
+    box.x = layout.viewport.x + sideMargin;
+    box.y = layout.getAnchor('center').y - 100;
+
+    // Add avatar on the left
+    const avatarContainer = createAvatarView(characterName, avatarSize);
     avatarContainer.x = padding;
     avatarContainer.y = padding;
     box.addChild(avatarContainer);
@@ -150,25 +265,26 @@ export function createMagicScene(
     // Render character name above text
     const nameText = new PIXI.Text({ 
       text: characterName, 
-      style: { fontSize: 18, fill: '#ffd', fontWeight: 'bold' } 
+      style: { fontSize: 18 * textScale, fill: '#ffd', fontWeight: 'bold' } 
     });
     nameText.x = 0;
     nameText.y = 0;
     textContainer.addChild(nameText);
 
     // Render dialogue text with emojis
-    const richText = createRichTextContainer(dialogueText, emojiMap, maxTextWidth, app, emojiTextureCache);
+    const richText = createRichTextContainer(dialogueText, emojiMap, maxTextWidth, app, emojiTextureCache, textScale);
     richText.x = 0;
-    richText.y = 30;
+    richText.y = nameText.height + 8;
     textContainer.addChild(richText);
 
-    // Add click indicator
+    // Add click indicator, shown once the line is complete
     const clickHint = new PIXI.Text({ 
       text: 'Click to continue...', 
-      style: { fontSize: 14, fill: '#888', fontStyle: 'italic' } 
+      style: { fontSize: 14 * textScale, fill: '#888', fontStyle: 'italic' } 
     });
     clickHint.x = 0;
     clickHint.y = richText.y + richText.height + 10;
+    clickHint.visible = false;
     textContainer.addChild(clickHint);
     
     textContainer.x = textStartX;
@@ -176,67 +292,206 @@ export function createMagicScene(
     box.addChild(textContainer);
 
     messageContainer.addChild(box);
+
+    // Choices wait under the line in place of the hint
+    const choiceList = choices.length > 0
+      ? renderChoices(choices, box.x + textStartX, box.y + padding + clickHint.y, textScale)
+      : null;
+    if (choiceList) choiceList.visible = false;
+
+    const instant = !typed || settings.get('reducedMotion');
+    reveal = createTypewriterReveal(richText, instant ? { charsPerSecond: 0 } : typing);
+    reveal.onComplete(() => {
+      if (choiceList) {
+        choiceList.visible = true;
+      } else {
+        clickHint.visible = true;
+      }
+    });
+  }
+
+  // Player choices as a column of buttons, their text may hold emojis
+  function renderChoices(choices: AvailableChoice[], x: number, y: number, textScale: number) {
+    const list = new PIXI.Container();
+    const width = Math.min(520, layout.viewport.x + layout.viewport.width - x - 40);
+    const padding = 10;
+    let top = 0;
+
+    choices.forEach(({ choice, index }) => {
+      const button = new PIXI.Container();
+      const label = createRichTextContainer(choice.text, emojiMap, width - padding * 2, app, emojiTextureCache, textScale);
+      label.position.set(padding, padding);
+      const height = label.height + padding * 2;
+      const bg = new PIXI.Graphics();
+      const draw = (color: number) => bg.clear().roundRect(0, 0, width, height, 6).fill(color);
+      draw(0x333333);
+      button.addChild(bg, label);
+      button.y = top;
+      top += height + 8;
+
+      const pick = () => choose(index);
+      button.eventMode = 'static';
+      button.cursor = 'pointer';
+      button.on('pointerover', () => draw(0x4a4a4a));
+      button.on('pointerout', () => draw(0x333333));
+      button.on('pointerdown', (event) => {
+        // The scene underneath would advance the dialogue
+        event.stopPropagation();
+        pick();
+      });
+      makeFocusable(button, pick);
+      list.addChild(button);
+    });
+
+    list.position.set(x, y);
+    messageContainer.addChild(list);
+    return list;
+  }
+
+  function choose(index: number) {
+    const picked = dialogue.choices().find(available => available.index === index);
+    if (!picked) return;
+    // Kept from before the choice, so going back to it offers the choices again
+    history.push({ name: 'You', text: picked.choice.text, choice: true, state: dialogue.getState() });
+    const line = dialogue.choose(index);
+    if (line) history.push({ name: line.name, text: line.text, choice: false, state: dialogue.getState() });
+    renderMessage(true);
   }
 
-  // Show next message
+  // History of the conversation, rows are built when it opens so they match the text size
+  const backlog = createBacklogPanel({ onSelect: rewindTo, rewind: numberParam(params, 'rewind', 0, 0, 1) === 1 });
+  scene.addChild(backlog.container);
+  layout.onResize(scene, () => {
+    backlog.layout(layout.viewport);
+    if (backlog.isOpen) backlog.show(history.map(entry => createHistoryRow(entry, backlog.rowWidth)));
+  });
+
+  function createHistoryRow(entry: HistoryEntry, width: number) {
+    const textScale = settings.get('textScale');
+    const avatarSize = 40;
+    const textX = avatarSize + 12;
+    const row = new PIXI.Container();
+    if (!entry.choice) row.addChild(createAvatarView(entry.name, avatarSize));
+
+    const nameText = new PIXI.Text({
+      text: entry.name,
+      style: { fontSize: 15 * textScale, fill: entry.choice ? '#8cf' : '#ffd', fontWeight: 'bold' }
+    });
+    nameText.x = textX;
+    row.addChild(nameText);
+
+    const richText = createRichTextContainer(entry.text, emojiMap, width - textX, app, emojiTextureCache, textScale);
+    richText.position.set(textX, nameText.height + 4);
+    row.addChild(richText);
+    return row;
+  }
+
+  function openHistory() {
+    if (!dialogueLoaded || backlog.isOpen || history.length === 0) return;
+    backlog.show(history.map(entry => createHistoryRow(entry, backlog.rowWidth)));
+  }
+
+  // Back to an earlier line, later entries are dropped and the line is shown in full
+  function rewindTo(index: number) {
+    const entry = history[index];
+    if (!entry) return;
+    dialogue.restore(entry.state);
+    history = history.slice(0, entry.choice ? index : index + 1);
+    backlog.hide();
+    renderMessage();
+  }
+
+  const historyButton = addActionButton(scene, layout, 'History', openHistory, -80, -36, 'bottom-right');
+  historyButton.visible = false;
+
+  // H opens and closes the history, scrolling up over the dialogue opens it
+  let covered = false;
+  const onKeyDown = (event: KeyboardEvent) => {
+    if (covered || event.ctrlKey || event.metaKey || event.altKey || event.key.toLowerCase() !== 'h') return;
+    if (backlog.isOpen) {
+      backlog.hide();
+    } else {
+      openHistory();
+    }
+  };
+  const onWheel = (event: WheelEvent) => {
+    if (!covered && event.deltaY < 0) openHistory();
+  };
+  window.addEventListener('keydown', onKeyDown);
+  window.addEventListener('wheel', onWheel);
+
+  let dialogueLoaded = false;
+
+  // Show next message, or the rest of the current one while it is still being typed
   function showNextMessage() {
-    currentMessageIndex++;
-    renderMessage(currentMessageIndex);
+    if (!dialogueLoaded) return;
+    if (reveal && !reveal.done) {
+      reveal.complete();
+      return;
+    }
+    // Only a choice moves on from a line that ends in choices
+    if (reveal && dialogue.choices().length > 0) return;
+    const line = dialogue.advance();
+    if (line) history.push({ name: line.name, text: line.text, choice: false, state: dialogue.getState() });
+    renderMessage(true);
   }
 
+  // Re-layout the current message for the new visible area, shown in full
+  layout.onResize(scene, () => {
+    if (dialogueLoaded) {
+      renderMessage();
+    }
+  });
+
+  // Re-render with the new size when the text size setting changes
+  let renderedTextScale = settings.get('textScale');
+  settings.onChange(scene, current => {
+    if (current.textScale === renderedTextScale) return;
+    renderedTextScale = current.textScale;
+    if (dialogueLoaded) {
+      renderMessage();
+    }
+  });
+
   // Make scene clickable to advance dialogue
   scene.interactive = true;
   scene.cursor = 'pointer';
   scene.on('pointerdown', showNextMessage);
 
+  // Free emoji_* and avatar_* textures instead of leaving them in Assets.cache. Runs from
+  // destroy and again when loading ends after it, the bundle is only unloaded once.
+  function releaseDialogueBundle() {
+    if (!dialogueBundle) return;
+    unloadRuntimeBundle(dialogueBundle);
+    dialogueBundle = null;
+  }
+
   // Load data and show first message
   (async () => {
     try {
-      const data = await fetchMagicWordsData();
-      
-      if (Array.isArray(data.dialogue)) {
-        dialogueData = data.dialogue;
-      } else if (Array.isArray(data.dialogues)) {
-        dialogueData = data.dialogues;
-      } else if (Array.isArray(data.messages)) {
-        dialogueData = data.messages;
-      } else if (Array.isArray(data)) {
-        dialogueData = data;
-      } else {
-        console.warn('Unexpected data structure:', data);
-        dialogueData = [];
-      }
-      
-      // Parse emoji map
-      const emojiesArray = data.emojies || data.emojis || [];
-      if (Array.isArray(emojiesArray)) {
-        emojiMap = {};
-        emojiesArray.forEach((emoji: any) => {
-          if (emoji.name && emoji.url) {
-            emojiMap[emoji.name] = emoji.url;
-          }
-        });
-      } else if (typeof emojiesArray === 'object') {
-        emojiMap = emojiesArray as Record<string, string>;
-      } else {
-        emojiMap = {};
-      }
-      
-      // Parse avatars
-      const avatarsArray = data.avatars || data.portraits || [];
-      if (Array.isArray(avatarsArray)) {
-        avatars = {};
-        avatarsArray.forEach((avatar: any) => {
-          if (avatar.name && avatar.url) {
-            avatars[avatar.name] = avatar.url;
-          }
-        });
-      } else if (typeof avatarsArray === 'object') {
-        avatars = avatarsArray as Record<string, string>;
-      } else {
-        avatars = {};
-      }
-      
+      // Sources whose payload fails the schema are passed over like ones that fail to load
+      const loaded = await loadFromSources(sources, {
+        signal: loading.signal,
+        parse: payload => {
+          const result = validateMagicWordsData(payload);
+          return result.data ? { data: result.data, issues: result.issues } : null;
+        },
+        cache
+      });
+      const { data, issues: schemaIssues } = loaded.parsed;
+      if (destroyed) return;
+      showSource(loaded.source, loaded.source.kind === 'cache' ? cache.read()?.savedAt : undefined);
+      // Sources passed over are reported next to the problems in the payload itself
+      const skipped: SchemaIssue[] = loaded.failures.map(failure => ({
+        path: '$',
+        message: `${failure.source.label} skipped: ${failure.error.message}`,
+        severity: 'warning'
+      }));
+      dialogue = createDialogueRunner(loadDialogueGraph(data.dialogue));
+      history = [];
+      emojiMap = Object.fromEntries(data.emojies.map(emoji => [emoji.name, emoji.url]));
+      avatars = Object.fromEntries(data.avatars.map(avatar => [avatar.name, avatar.url]));
+
       // Fallback values for specific characters and emojis if not present
       if (!avatars['Neighbour']) {
         avatars['Neighbour'] = 'https://api.dicebear.com/9.x/personas/png?body=squared&clothingColor=d56AAf&eyes=open&hair=shortCombover&hairColor=adad55&mouth=smirk&nose=mediumRound&skinColor=e5a07e';
@@ -250,108 +505,113 @@ export function createMagicScene(
         emojiMap['win'] = 'https://api.dicebear.com/9.x/fun-emoji/png?seed=Win';
       }
 
-      // Preload Magic Words assets, register in Assets for caching
-      const allUrls: string[] = [];
-      const urlToAlias: Record<string, string> = {};
+      // References are checked with the fallbacks in place
+      const issues = [
+        ...skipped,
+        ...schemaIssues,
+        ...checkMagicWordsReferences({
+          dialogue: data.dialogue,
+          emojies: Object.entries(emojiMap).map(([name, url]) => ({ name, url })),
+          avatars: Object.entries(avatars).map(([name, url]) => ({ name, url }))
+        })
+      ];
+
+      // Preload Magic Words images as a runtime bundle, unloaded with the scene
+      const bundleAssets: Record<string, string> = {};
       
       // Collect emoji URLs
       Object.entries(emojiMap).forEach(([name, url]) => {
         if (url && typeof url === 'string') {
-          const alias = `emoji_${name}`;
-          urlToAlias[url] = alias;
-          allUrls.push(url);
+          bundleAssets[`emoji_${name}`] = url;
         }
       });
       
       // Collect avatar URLs
       Object.entries(avatars).forEach(([name, url]) => {
         if (url && typeof url === 'string') {
-          const alias = `avatar_${name}`;
-          urlToAlias[url] = alias;
-          allUrls.push(url);
+          bundleAssets[`avatar_${name}`] = url;
         }
       });
 
-      // Preload all images using Image API, then register in Assets
-      if (allUrls.length > 0) {
-        try {
-          const imagePromises = allUrls.map(url => {
-            return new Promise<HTMLImageElement>((resolve, reject) => {
-              const img = new Image();
-              img.crossOrigin = 'anonymous';
-              img.onload = () => resolve(img);
-              img.onerror = () => {
-                console.warn('Failed to preload image:', url);
-                resolve(img);
-              };
-              img.src = url;
-            });
-          });
-          
-          const images = await Promise.all(imagePromises);
-          
-          // Register loaded images and populate texture cache
-          images.forEach((img, index) => {
-            const url = allUrls[index];
-            const alias = urlToAlias[url];
-            if (img.complete && img.naturalWidth > 0) {
-              const texture = PIXI.Texture.from(img);
-              // Add to Assets cache only if not present
-              if (!Assets.cache.has(alias)) {
-                Assets.cache.set(alias, texture);
-              } else {
-                // Use existing texture from cache
-                const existingTexture = Assets.get(alias) as PIXI.Texture;
-                if (existingTexture) {
-                  texture.destroy();
-                  // Reuse existing texture
-                  const nameMatch = alias.match(/^(emoji|avatar)_(.+)$/);
-                  if (nameMatch) {
-                    const type = nameMatch[1];
-                    const name = nameMatch[2];
-                    if (type === 'emoji') {
-                      emojiTextureCache[name] = existingTexture;
-                    }
-                  }
-                  return;
-                }
-              }
-              
-              // Add to local texture cache for fast access
-              const nameMatch = alias.match(/^(emoji|avatar)_(.+)$/);
-              if (nameMatch) {
-                const type = nameMatch[1];
-                const name = nameMatch[2];
-                if (type === 'emoji') {
-                  emojiTextureCache[name] = texture;
-                }
-              }
+      if (Object.keys(bundleAssets).length > 0) {
+        dialogueBundle = addRuntimeBundle('magic', 'magic-dialogue', bundleAssets);
+        
+        // Load each image on its own so one broken URL does not fail the rest
+        await Promise.all(Object.entries(bundleAssets).map(async ([alias, url]) => {
+          try {
+            const texture = await Assets.load<PIXI.Texture>(alias);
+            // Add to local texture cache for fast access
+            const nameMatch = alias.match(/^emoji_(.+)$/);
+            if (nameMatch) {
+              emojiTextureCache[nameMatch[1]] = texture;
             }
-          });
-        } catch (error) {
-          console.error('Failed to preload Magic Words assets:', error);
-          // Continue anyway, will use direct URL loading
-        }
+          } catch (error) {
+            console.warn('Failed to preload image:', url, error);
+          }
+        }));
       }
 
+      // Scene was left while loading, release what was just loaded
+      if (destroyed) {
+        releaseDialogueBundle();
+        return;
+      }
+      showIssues(`Dialogue data: ${issues.length} problem${issues.length === 1 ? '' : 's'}`, issues);
+
       // Remove "Connecting..."
       messageContainer.removeChildren();
-      currentMessageIndex = -1;
+      dialogueLoaded = true;
+      historyButton.visible = true;
       showNextMessage();
     } catch (error) {
+      if (destroyed || isAbortError(error)) return;
       console.error('Error loading Magic Words data:', error);
-      messageContainer.removeChildren();
-      const errorText = new PIXI.Text({ 
-        text: 'Failed to load dialogue data', 
-        style: { fontSize: 20, fill: '#ff0000' } 
-      });
-      errorText.anchor.set(0.5);
-      errorText.x = app.renderer.width / 2;
-      errorText.y = app.renderer.height / 2;
-      messageContainer.addChild(errorText);
+      // Bad JSON ends up here too, so the reason is shown rather than a generic failure
+      showIssues('Dialogue data could not be loaded', [
+        { path: '$', message: error instanceof Error ? error.message : String(error), severity: 'error' }
+      ]);
+      showNotice('The dialogue data could not be loaded, see the Data panel', '#ff6b6b');
     }
   })();
 
-  return scene;
+  return {
+    container: scene,
+
+    update(ticker: PIXI.Ticker) {
+      reveal?.update(ticker.deltaMS);
+      backlog.update(ticker.deltaMS);
+    },
+
+    // Keys and the wheel are for the scene on top, e.g. the pause overlay
+    pause() {
+      covered = true;
+    },
+
+    resume() {
+      covered = false;
+    },
+
+    // Leaving stops a request still waiting for the network
+    exit() {
+      loading.abort();
+    },
+
+    destroy() {
+      destroyed = true;
+      loading.abort();
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('wheel', onWheel);
+      releaseDialogueBundle();
+    }
+  };
 }
 
+registerScene({
+  id: 'magic',
+  label: 'Magic Words',
+  order: 2,
+  transition: 'crossfade',
+  factory: createMagicScene
+});
+
+
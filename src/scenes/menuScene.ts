@@ -0,0 +1,61 @@
+import * as PIXI from 'pixi.js';
+import { makeFocusable } from '../input';
+import { Scene, SceneContext, getRegisteredScenes, registerScene } from './sceneRegistry';
+
+// Scene: Menu
+export function createMenuScene({ layout, switchToScene, pushScene }: SceneContext): Scene {
+  const scene = new PIXI.Container();
+  const buttons: PIXI.Container[] = [];
+
+  return {
+    container: scene,
+
+    create() {
+      const style = new PIXI.TextStyle({ fill: '#FFFFFF', fontSize: 36 });
+      const title = new PIXI.Text({ text: 'Demo Scenes', style });
+      title.anchor.set(0.5, 0);
+      scene.addChild(title);
+      layout.pin(title, 'top', 0, 20);
+
+      // One button per registered scene that has a menu label, then the settings overlay
+      const buttonsData = getRegisteredScenes()
+        .filter((definition) => definition.label)
+        .map((definition) => ({ label: definition.label!, action: () => switchToScene(definition.id) }));
+      buttonsData.push({ label: 'Settings', action: () => pushScene('settings') });
+
+      const buttonStyle = new PIXI.TextStyle({ fill: '#ffffff', fontSize: 20 });
+      buttonsData.forEach((b, i) => {
+        const btn = new PIXI.Container();
+        const bg = new PIXI.Graphics();
+        bg.roundRect(-150, -20, 300, 40, 8).fill(0x222222);
+        btn.addChild(bg);
+        const label = new PIXI.Text({ text: b.label, style: buttonStyle });
+        label.anchor.set(0.5);
+        btn.addChild(label);
+        btn.interactive = true;
+        btn.cursor = 'pointer';
+        btn.on('pointerdown', b.action);
+        makeFocusable(btn, b.action);
+        scene.addChild(btn);
+        buttons.push(btn);
+      });
+
+      // Responsive reposition on resize
+      layout.onResize(scene, () => {
+        const top = layout.getAnchor('top');
+        buttons.forEach((btn, i) => {
+          btn.x = top.x;
+          btn.y = top.y + 120 + i * 70;
+        });
+      });
+    }
+  };
+}
+
+registerScene({
+  id: 'menu',
+  persistent: true,
+  // Ace of Shadows is the first entry, so it is the most likely next scene
+  preload: ['ace'],
+  factory: createMenuScene
+});
@@ -0,0 +1,58 @@
+import * as PIXI from 'pixi.js';
+import { makeFocusable } from '../input';
+import { Scene, SceneContext, registerScene } from './sceneRegistry';
+
+// Overlay: Pause menu, pushed on top of a running scene
+export function createPauseScene({ layout, switchToScene, pushScene, popScene }: SceneContext): Scene {
+  const scene = new PIXI.Container();
+
+  // Dim backdrop also swallows clicks meant for the scene underneath
+  const backdrop = new PIXI.Graphics();
+  backdrop.eventMode = 'static';
+  scene.addChild(backdrop);
+
+  const panel = new PIXI.Container();
+  scene.addChild(panel);
+
+  const title = new PIXI.Text({ text: 'Paused', style: { fontSize: 32, fill: '#ffffff' } });
+  title.anchor.set(0.5);
+  title.y = -70;
+  panel.addChild(title);
+
+  const buttonsData = [
+    { label: 'Resume', action: () => popScene() },
+    { label: 'Settings', action: () => pushScene('settings') },
+    { label: 'Menu', action: () => switchToScene('menu') }
+  ];
+
+  const buttonStyle = new PIXI.TextStyle({ fill: '#ffffff', fontSize: 20 });
+  buttonsData.forEach((b, i) => {
+    const btn = new PIXI.Container();
+    const bg = new PIXI.Graphics();
+    bg.roundRect(-100, -20, 200, 40, 8).fill(0x333333);
+    btn.addChild(bg);
+    const label = new PIXI.Text({ text: b.label, style: buttonStyle });
+    label.anchor.set(0.5);
+    btn.addChild(label);
+    btn.y = i * 60;
+    btn.interactive = true;
+    btn.cursor = 'pointer';
+    btn.on('pointerdown', b.action);
+    makeFocusable(btn, b.action);
+    panel.addChild(btn);
+  });
+
+  layout.onResize(scene, () => {
+    const { x, y, width, height } = layout.viewport;
+    backdrop.clear();
+    backdrop.rect(x, y, width, height).fill({ color: 0x000000, alpha: 0.6 });
+  });
+  layout.pin(panel, 'center');
+
+  return { container: scene };
+}
+
+registerScene({
+  id: 'pause',
+  factory: createPauseScene
+});
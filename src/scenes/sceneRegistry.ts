@@ -0,0 +1,90 @@
+import * as PIXI from 'pixi.js';
+import { Layout } from '../layout';
+import { HistoryMode } from '../router';
+import { SettingsService } from '../settings';
+import { TransitionName } from '../transitions';
+
+// Ticker functions for each scene, keyed by owner id
+export type SceneTickers = { [key: string]: (() => void)[] };
+
+// Scene parameters, read from the URL hash query
+export type SceneParams = Record<string, string>;
+
+export interface SwitchOptions {
+  // Overrides the transition declared by the target scene
+  transition?: TransitionName;
+  params?: SceneParams;
+  // Defaults to 'push'
+  history?: HistoryMode;
+}
+
+// Shared services handed to every scene factory
+export interface SceneContext {
+  app: PIXI.Application;
+  layout: Layout;
+  settings: SettingsService;
+  sceneTickers: SceneTickers;
+  // Replaces the whole scene stack
+  switchToScene: (id: string, options?: SwitchOptions) => void;
+  // Opens an overlay scene on top, pausing the scene underneath
+  pushScene: (id: string, options?: SwitchOptions) => void;
+  // Closes the top overlay and resumes the scene underneath
+  popScene: () => void;
+}
+
+// Scene lifecycle contract, all hooks are optional
+export interface Scene {
+  // Root display object added to the stage while the scene is shown
+  container: PIXI.Container;
+  // Called once after the factory, before the first enter
+  create?(): void;
+  // Called every time the scene becomes the current scene
+  enter?(): void;
+  // Called when the scene stops being the current scene
+  exit?(): void;
+  // Called every frame while the scene is running
+  update?(ticker: PIXI.Ticker): void;
+  // Called when an overlay is pushed on top, tickers are already stopped
+  pause?(): void;
+  // Called when the overlay on top is popped, tickers are already running again
+  resume?(): void;
+  // Called before the container is destroyed
+  destroy?(): void;
+}
+
+export interface SceneDefinition {
+  id: string;
+  // Menu button label, scenes without a label are not listed
+  label?: string;
+  // Menu sort order
+  order?: number;
+  // Keep the scene alive between visits instead of destroying it on leave
+  persistent?: boolean;
+  // Transition used when switching to this scene
+  transition?: TransitionName;
+  // Asset bundles from the manifest that must be loaded before the scene is created
+  bundles?: string[];
+  // Bundles of the next likely scenes, loaded in the background while this one is shown
+  preload?: string[];
+  // Persistent scenes keep the params they were first created with
+  factory: (context: SceneContext, params: SceneParams) => Scene;
+}
+
+const registry = new Map<string, SceneDefinition>();
+
+// Register a scene, called by scene modules at import time
+export function registerScene(definition: SceneDefinition) {
+  if (registry.has(definition.id)) {
+    console.warn(`Scene "${definition.id}" is already registered, replacing it`);
+  }
+  registry.set(definition.id, definition);
+}
+
+export function getSceneDefinition(id: string): SceneDefinition | undefined {
+  return registry.get(id);
+}
+
+// All registered scenes sorted by menu order
+export function getRegisteredScenes(): SceneDefinition[] {
+  return Array.from(registry.values()).sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+}
@@ -0,0 +1,134 @@
+import * as PIXI from 'pixi.js';
+import { makeFocusable } from '../input';
+import { SettingKey, Settings } from '../settings';
+import { Scene, SceneContext, registerScene } from './sceneRegistry';
+
+interface SettingRow {
+  key: SettingKey;
+  label: string;
+  format: (settings: Settings) => string;
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const ROWS: SettingRow[] = [
+  { key: 'resolutionScale', label: 'Resolution', format: s => percent(s.resolutionScale) },
+  { key: 'reducedMotion', label: 'Reduced motion', format: s => (s.reducedMotion ? 'On' : 'Off') },
+  { key: 'showFps', label: 'FPS overlay', format: s => (s.showFps ? 'On' : 'Off') },
+  { key: 'textScale', label: 'Text size', format: s => percent(s.textScale) },
+  { key: 'masterVolume', label: 'Master volume', format: s => percent(s.masterVolume) }
+];
+
+const ROW_HEIGHT = 56;
+
+// Overlay: Settings panel, pushed on top of the menu or a running scene
+export function createSettingsScene({ layout, settings, popScene }: SceneContext): Scene {
+  const scene = new PIXI.Container();
+
+  // Dim backdrop also swallows clicks meant for the scene underneath
+  const backdrop = new PIXI.Graphics();
+  backdrop.eventMode = 'static';
+  scene.addChild(backdrop);
+
+  const panel = new PIXI.Container();
+  scene.addChild(panel);
+
+  const panelHeight = ROWS.length * ROW_HEIGHT + 190;
+  const panelTop = -panelHeight / 2;
+  const panelBg = new PIXI.Graphics();
+  panelBg.roundRect(-260, panelTop, 520, panelHeight, 12).fill({ color: 0x1a1a1a, alpha: 0.95 });
+  panel.addChild(panelBg);
+
+  const title = new PIXI.Text({ text: 'Settings', style: { fontSize: 32, fill: '#ffffff' } });
+  title.anchor.set(0.5);
+  title.y = panelTop + 40;
+  panel.addChild(title);
+
+  const labelStyle = new PIXI.TextStyle({ fill: '#ffffff', fontSize: 20 });
+
+  function createButton(text: string, width: number, action: () => void): PIXI.Container {
+    const btn = new PIXI.Container();
+    const bg = new PIXI.Graphics();
+    bg.roundRect(-width / 2, -18, width, 36, 8).fill(0x333333);
+    btn.addChild(bg);
+    const label = new PIXI.Text({ text, style: labelStyle });
+    label.anchor.set(0.5);
+    btn.addChild(label);
+    btn.interactive = true;
+    btn.cursor = 'pointer';
+    btn.on('pointerdown', action);
+    makeFocusable(btn, action);
+    return btn;
+  }
+
+  // Value texts, refreshed whenever a setting changes
+  const valueTexts = new Map<SettingKey, PIXI.Text>();
+
+  ROWS.forEach((row, i) => {
+    const y = panelTop + 100 + i * ROW_HEIGHT;
+
+    const label = new PIXI.Text({ text: row.label, style: labelStyle });
+    label.anchor.set(0, 0.5);
+    label.x = -230;
+    label.y = y;
+    panel.addChild(label);
+
+    const value = new PIXI.Text({ text: '', style: labelStyle });
+    value.anchor.set(0.5);
+    value.x = 130;
+    value.y = y;
+    // Clicks go through to the toggle button underneath
+    value.eventMode = 'none';
+    panel.addChild(value);
+    valueTexts.set(row.key, value);
+
+    if (typeof settings.get(row.key) === 'boolean') {
+      // The whole value is a toggle button
+      const toggle = createButton('', 120, () => settings.set(row.key, !settings.get(row.key)));
+      toggle.x = 130;
+      toggle.y = y;
+      panel.addChildAt(toggle, panel.getChildIndex(value));
+    } else {
+      const decrease = createButton('-', 36, () => settings.step(row.key, -1));
+      decrease.x = 50;
+      decrease.y = y;
+      panel.addChild(decrease);
+
+      const increase = createButton('+', 36, () => settings.step(row.key, 1));
+      increase.x = 210;
+      increase.y = y;
+      panel.addChild(increase);
+    }
+  });
+
+  const buttonsY = panelTop + 100 + ROWS.length * ROW_HEIGHT + 20;
+  const resetButton = createButton('Defaults', 140, () => settings.reset());
+  resetButton.x = -80;
+  resetButton.y = buttonsY;
+  panel.addChild(resetButton);
+
+  const closeButton = createButton('Close', 140, () => popScene());
+  closeButton.x = 80;
+  closeButton.y = buttonsY;
+  panel.addChild(closeButton);
+
+  settings.onChange(scene, current => {
+    ROWS.forEach(row => {
+      valueTexts.get(row.key)!.text = row.format(current);
+    });
+  });
+
+  layout.onResize(scene, () => {
+    const { x, y, width, height } = layout.viewport;
+    backdrop.clear();
+    backdrop.rect(x, y, width, height).fill({ color: 0x000000, alpha: 0.6 });
+  });
+  layout.pin(panel, 'center');
+
+  return { container: scene };
+}
+
+registerScene({
+  id: 'settings',
+  factory: createSettingsScene
+});
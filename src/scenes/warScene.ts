@@ -0,0 +1,307 @@
+import * as PIXI from 'pixi.js';
+import { Assets } from 'pixi.js';
+import { createCardFaceAtlas } from '../cards/cardFaces';
+import { Deck, createDeck } from '../cards/deck';
+import { PlayingCard, createPlayingCard } from '../cards/playingCard';
+import { STANDARD_DECK, cardLabel, faceForCard } from '../cards/playingCards';
+import { FLIGHT_LOOKS, createFlightEffects } from '../flightEffect';
+import { choiceParam, numberParam } from '../router';
+import { createSeededRandom } from '../simulation/core';
+import { WarPlay, WarSide, WarTrick, createWarGame } from '../simulation/warModel';
+import { call, sequence, wait } from '../tweens';
+import { addActionButton, addBackToMenuButton, addPauseButton, addSettingsButton, addSceneTweens } from '../utils';
+import { Scene, SceneContext, SceneParams, registerScene } from './sceneRegistry';
+
+// URL params: seed (deal), think (ms the computer waits before playing), flight (flat, 3d)
+export function createWarScene(
+  { app, layout, settings, sceneTickers, switchToScene, pushScene }: SceneContext,
+  params: SceneParams
+): Scene {
+  const scene = new PIXI.Container();
+
+  addBackToMenuButton(scene, layout, switchToScene);
+  addPauseButton(scene, layout, pushScene);
+  addSettingsButton(scene, layout, pushScene);
+
+  const seed = Math.round(numberParam(params, 'seed', Math.floor(Math.random() * 0x7fffffff), 0));
+  const THINK_MS = numberParam(params, 'think', 500, 0, 5000);
+  const flightLook = choiceParam(params, 'flight', FLIGHT_LOOKS, 'flat');
+  const CARD_SCALE = 0.3;
+  const FLIGHT_MS = 350;
+  // Delay between cards of one play, and the pause before a trick is decided
+  const STAGGER_MS = 90;
+  const RESOLVE_DELAY_MS = 600;
+  // War cards fan out to the right on the table
+  const TABLE_OFFSET = 28;
+
+  const cardTexture = Assets.get('card') as PIXI.Texture;
+  const faceAtlas = createCardFaceAtlas(app, cardTexture.width, cardTexture.height);
+  const cardWidth = cardTexture.width * CARD_SCALE;
+  const cardHeight = cardTexture.height * CARD_SCALE;
+
+  const game = createWarGame({ random: createSeededRandom(seed) });
+
+  type CardDeck = Deck<PlayingCard>;
+
+  // Face-down stock and table pile for both sides
+  const stocks: Record<WarSide, CardDeck> = { player: createDeck<PlayingCard>(0.4), opponent: createDeck<PlayingCard>(0.4) };
+  const tables: Record<WarSide, CardDeck> = {
+    player: createDeck<PlayingCard>(TABLE_OFFSET, 0),
+    opponent: createDeck<PlayingCard>(TABLE_OFFSET, 0)
+  };
+  [stocks.player, stocks.opponent, tables.player, tables.opponent].forEach(deck => scene.addChild(deck.container));
+
+  // Card ids match the model, one sprite per card for the whole game
+  const cardsById: PlayingCard[] = STANDARD_DECK.map((_, cardId) => {
+    const face = faceForCard(cardId);
+    const card = createPlayingCard(cardId, face, faceAtlas.getTexture(face), cardTexture);
+    card.scale.set(CARD_SCALE);
+    return card;
+  });
+
+  // Score and turn messages
+  const scoreText = new PIXI.Text({ text: '', style: { fontSize: 20, fill: '#ffffff' } });
+  scene.addChild(scoreText);
+  layout.pin(scoreText, 'top-left', 20, 16);
+
+  const messageText = new PIXI.Text({ text: '', style: { fontSize: 22, fill: '#ffd54f', align: 'center' } });
+  messageText.anchor.set(0.5);
+  scene.addChild(messageText);
+
+  const stockLabels: Record<WarSide, PIXI.Text> = {
+    player: new PIXI.Text({ text: 'You', style: { fontSize: 14, fill: '#bbbbbb' } }),
+    opponent: new PIXI.Text({ text: 'Computer', style: { fontSize: 14, fill: '#bbbbbb' } })
+  };
+  Object.values(stockLabels).forEach(label => {
+    label.anchor.set(0.5, 0);
+    scene.addChild(label);
+  });
+
+  // Opponent row above the middle, player row below it, stocks on the left of the tables
+  layout.onResize(scene, () => {
+    const center = layout.getAnchor('center');
+    stocks.opponent.container.position.set(center.x - 260, center.y - 150);
+    tables.opponent.container.position.set(center.x - 40, center.y - 150);
+    stocks.player.container.position.set(center.x - 260, center.y + 110);
+    tables.player.container.position.set(center.x - 40, center.y + 110);
+    messageText.position.set(center.x + 300, center.y - 20);
+    (['player', 'opponent'] as WarSide[]).forEach(side => {
+      const { x, y } = stocks[side].container;
+      stockLabels[side].position.set(x, y + cardHeight / 2 + 10);
+    });
+  });
+
+  // Clicking the own stock plays a card, like the Play button
+  scene.eventMode = 'static';
+  layout.onResize(scene, () => {
+    const { x, y, width, height } = layout.viewport;
+    scene.hitArea = new PIXI.Rectangle(x, y, width, height);
+  });
+  scene.on('pointerdown', (event) => {
+    const { x, y } = scene.toLocal(event.global);
+    const stock = stocks.player.container;
+    if (Math.abs(x - stock.x) <= cardWidth / 2 + 10 && Math.abs(y - stock.y) <= cardHeight / 2 + 10) {
+      playPlayerCard();
+    }
+  });
+
+  // Card flights and the pauses between game steps run on the scene's tween ticker
+  const tweens = addSceneTweens(app, sceneTickers, 'war', scene);
+  const flightEffects = createFlightEffects({ lift: 0.35, shadowX: 8, shadowY: 14 });
+  // Input is ignored while cards move or the computer is thinking
+  let busy = false;
+
+  // Fly a card between piles in scene space, it lands showing the given side.
+  // Resolves false when Restart cut the flight short.
+  function flyCard(card: PlayingCard, from: CardDeck, to: CardDeck, toIndex: number, faceUp: boolean, delayMs: number) {
+    const start = scene.toLocal(card.position, from.container);
+    from.remove(card);
+    scene.addChild(card);
+    card.position.copyFrom(start);
+    const target = scene.toLocal(to.getStackPosition(toIndex), to.container);
+    const flips = card.faceUp !== faceUp;
+    const reducedMotion = settings.get('reducedMotion');
+
+    const effect = flightLook === '3d' && !reducedMotion ? flightEffects.apply(card, start, target) : null;
+
+    return tweens.to(card, { x: target.x, y: target.y }, {
+      duration: reducedMotion ? 0 : FLIGHT_MS,
+      delay: reducedMotion ? 0 : delayMs,
+      ease: 'quadOut',
+      onUpdate: progress => {
+        if (flips) card.setFlipProgress(progress, CARD_SCALE);
+        effect?.update(progress);
+      }
+    }).finished.then(completed => {
+      effect?.destroy();
+      if (completed) {
+        scene.removeChild(card);
+        card.setFaceUp(faceUp);
+        card.scale.set(CARD_SCALE);
+      }
+      return completed;
+    });
+  }
+
+  // Run the next game step after a pause, on scene time so pausing the scene pauses the game
+  function after(delayMs: number, step: () => void) {
+    tweens.play(sequence([wait(settings.get('reducedMotion') ? 0 : delayMs), call(step)]));
+  }
+
+  // Move the played cards from the stock onto the table, only the last one face up
+  async function showPlay(play: WarPlay): Promise<boolean> {
+    const cards = [...play.faceDown, play.faceUp].map(cardId => cardsById[cardId]);
+    const table = tables[play.side];
+    const startIndex = table.size;
+    updateHud();
+    const landed = await Promise.all(cards.map((card, i) => {
+      const faceUp = i === cards.length - 1;
+      return flyCard(card, stocks[play.side], table, startIndex + i, faceUp, i * STAGGER_MS).then(completed => {
+        if (completed) table.push(card);
+        return completed;
+      });
+    }));
+    return landed.every(Boolean);
+  }
+
+  // Table cards go face down to the bottom of the winner's stock, in the model's order
+  async function showTrick(trick: WarTrick): Promise<boolean> {
+    const stock = stocks[trick.winner!];
+    const landed = await Promise.all(trick.collected.map((cardId, i) => {
+      const card = cardsById[cardId];
+      const table = tables.player.cards.includes(card) ? tables.player : tables.opponent;
+      return flyCard(card, table, stock, 0, false, i * STAGGER_MS / 2);
+    }));
+    if (!landed.every(Boolean)) return false;
+    trick.collected.forEach((cardId, i) => stock.insertAt(cardsById[cardId], i));
+    return true;
+  }
+
+  function playPlayerCard() {
+    if (busy || game.status !== 'playing' || game.turn !== 'player') return;
+    const play = game.play('player');
+    if (!play) {
+      showGameOver();
+      return;
+    }
+    busy = true;
+    setMessage('');
+    showPlay(play).then(landed => {
+      if (!landed) return;
+      setMessage('Computer is playing…');
+      after(THINK_MS, playOpponentCard);
+    });
+  }
+
+  // The computer plays its top card after a short think
+  function playOpponentCard() {
+    const play = game.play('opponent');
+    if (!play) {
+      showGameOver();
+      return;
+    }
+    showPlay(play).then(landed => {
+      if (landed) after(RESOLVE_DELAY_MS, resolveTrick);
+    });
+  }
+
+  function resolveTrick() {
+    const trick = game.resolve();
+    if (!trick) return;
+
+    if (trick.winner === null) {
+      busy = false;
+      updateHud();
+      if (game.status !== 'playing') {
+        showGameOver();
+      } else {
+        setMessage('War!\nPlay three cards face down\nand one face up');
+      }
+      return;
+    }
+
+    const playerCard = cardLabel(faceForCard(lastCard(tables.player)));
+    const opponentCard = cardLabel(faceForCard(lastCard(tables.opponent)));
+    setMessage(trick.winner === 'player'
+      ? `${playerCard} beats ${opponentCard}\nYou take ${trick.collected.length} cards`
+      : `${opponentCard} beats ${playerCard}\nComputer takes ${trick.collected.length} cards`);
+
+    showTrick(trick).then(landed => {
+      if (!landed) return;
+      busy = false;
+      updateHud();
+      if (game.status !== 'playing') {
+        showGameOver();
+      } else {
+        setMessage(`${messageText.text}\n\nYour turn`);
+      }
+    });
+  }
+
+  function lastCard(table: CardDeck): number {
+    return table.peek()!.cardId;
+  }
+
+  function showGameOver() {
+    busy = false;
+    updateHud();
+    const result = game.status === 'won' ? 'You win!' : game.status === 'lost' ? 'You lose' : 'Draw';
+    setMessage(`${result}\nafter ${game.tricks} tricks\n\nRestart for a new deal`);
+  }
+
+  function setMessage(text: string) {
+    messageText.text = text;
+  }
+
+  function updateHud() {
+    scoreText.text = `You ${game.piles.player.length} cards, ${game.tricksWon.player} tricks` +
+      `    Computer ${game.piles.opponent.length} cards, ${game.tricksWon.opponent} tricks`;
+  }
+
+  // Deal again, every card goes back face down to the stock the model put it on
+  function restart() {
+    tweens.killAll();
+    busy = false;
+    [stocks.player, stocks.opponent, tables.player, tables.opponent].forEach(deck => {
+      while (deck.pop()) {
+        // Empty the pile
+      }
+    });
+    cardsById.forEach(card => {
+      card.removeFromParent();
+      card.setFaceUp(false);
+      card.scale.set(CARD_SCALE);
+    });
+
+    game.restart();
+    (['player', 'opponent'] as WarSide[]).forEach(side => {
+      game.piles[side].forEach(cardId => stocks[side].push(cardsById[cardId]));
+    });
+    updateHud();
+    setMessage('Your turn\nClick your deck or Play');
+  }
+
+  addActionButton(scene, layout, 'Play', playPlayerCard, -70);
+  addActionButton(scene, layout, 'Restart', restart, 70);
+
+  restart();
+
+  return {
+    container: scene,
+
+    destroy() {
+      // Cards in the air are scene children, the others are destroyed with their decks
+      faceAtlas.destroy();
+      flightEffects.destroy();
+    }
+  };
+}
+
+registerScene({
+  id: 'war',
+  label: 'War (card game)',
+  order: 4,
+  transition: 'slide',
+  bundles: ['ace'],
+  factory: createWarScene
+});
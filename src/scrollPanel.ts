@@ -0,0 +1,204 @@
+import * as PIXI from 'pixi.js';
+
+// Vertical scrolling for a masked panel: the wheel, and dragging with the mouse or a finger
+// that keeps gliding after release and springs back when pulled past either end.
+
+export interface ScrollOptions {
+  // Share of the speed kept per 60 Hz frame while gliding
+  friction?: number;
+  // Share of the way back to the edge left per 60 Hz frame after pulling past it
+  spring?: number;
+  // Share of the pointer movement applied past either end while dragging
+  resistance?: number;
+}
+
+const DEFAULTS: Required<ScrollOptions> = {
+  friction: 0.94,
+  spring: 0.75,
+  resistance: 0.4
+};
+
+const FRAME_MS = 1000 / 60;
+// Slower gliding stops, px per ms
+const MIN_SPEED = 0.01;
+// Only pointer movement this recent counts toward the release speed
+const VELOCITY_WINDOW_MS = 100;
+
+// Scroll position of content in a view, offset 0 shows the top. Times are in ms.
+export function createScrollState(options: ScrollOptions = {}) {
+  const o = { ...DEFAULTS, ...options };
+  let offset = 0;
+  let velocity = 0;
+  let contentHeight = 0;
+  let viewHeight = 0;
+  let drag: { startY: number; startOffset: number; samples: { y: number; time: number }[] } | null = null;
+
+  const maxOffset = () => Math.max(0, contentHeight - viewHeight);
+  const clamp = (value: number) => Math.min(maxOffset(), Math.max(0, value));
+
+  return {
+    get offset() {
+      return offset;
+    },
+
+    get maxOffset() {
+      return maxOffset();
+    },
+
+    get isDragging() {
+      return drag !== null;
+    },
+
+    // Still moving after a release or pulled past an end
+    get isMoving() {
+      return drag === null && (velocity !== 0 || offset !== clamp(offset));
+    },
+
+    setSize(content: number, view: number) {
+      contentHeight = content;
+      viewHeight = view;
+      if (!drag) offset = clamp(offset);
+    },
+
+    scrollTo(value: number) {
+      velocity = 0;
+      offset = clamp(value);
+    },
+
+    // Wheel delta in px, positive scrolls down
+    wheel(deltaY: number) {
+      velocity = 0;
+      offset = clamp(offset + deltaY);
+    },
+
+    dragStart(y: number, time: number) {
+      velocity = 0;
+      drag = { startY: y, startOffset: offset, samples: [{ y, time }] };
+    },
+
+    dragMove(y: number, time: number) {
+      if (!drag) return;
+      drag.samples.push({ y, time });
+      drag.samples = drag.samples.filter(sample => time - sample.time <= VELOCITY_WINDOW_MS);
+      const wanted = drag.startOffset + drag.startY - y;
+      const limited = clamp(wanted);
+      // Past the ends the content follows the pointer only partly
+      offset = limited + (wanted - limited) * o.resistance;
+    },
+
+    // Returns how far the pointer moved in total, so a short press can count as a tap
+    dragEnd(time: number): number {
+      if (!drag) return 0;
+      const first = drag.samples[0];
+      const last = drag.samples[drag.samples.length - 1];
+      const elapsed = time - first.time;
+      velocity = elapsed > 0 && time - last.time <= VELOCITY_WINDOW_MS ? (first.y - last.y) / elapsed : 0;
+      const distance = Math.abs(offset - drag.startOffset);
+      drag = null;
+      return distance;
+    },
+
+    update(deltaMs: number) {
+      if (drag) return;
+      const frames = deltaMs / FRAME_MS;
+      const limited = clamp(offset);
+      if (offset !== limited) {
+        // Spring back to the edge instead of gliding on
+        velocity = 0;
+        offset = limited + (offset - limited) * o.spring ** frames;
+        if (Math.abs(offset - limited) < 0.5) offset = limited;
+        return;
+      }
+      if (velocity === 0) return;
+      offset += velocity * deltaMs;
+      velocity *= o.friction ** frames;
+      if (Math.abs(velocity) < MIN_SPEED) velocity = 0;
+    }
+  };
+}
+
+export type ScrollState = ReturnType<typeof createScrollState>;
+
+// Pointer travel in px below which a press on the panel is a tap rather than a drag
+const TAP_DISTANCE = 6;
+
+// Masked viewport over a content container. The owner reports the content height, measured
+// bounds would be cut off by the mask. Taps report the content-local y so the owner can tell
+// which row was hit.
+export function createScrollPanel(width: number, height: number, onTap?: (contentY: number) => void) {
+  const container = new PIXI.Container();
+  const content = new PIXI.Container();
+  const mask = new PIXI.Graphics();
+  const scroll = createScrollState();
+  container.addChild(content, mask);
+  content.mask = mask;
+
+  const hitArea = new PIXI.Rectangle();
+  container.eventMode = 'static';
+  container.hitArea = hitArea;
+  let pressed = false;
+  let contentHeight = 0;
+
+  function resize(nextWidth: number, nextHeight: number) {
+    width = nextWidth;
+    height = nextHeight;
+    mask.clear().rect(0, 0, width, height).fill(0xffffff);
+    hitArea.width = width;
+    hitArea.height = height;
+    scroll.setSize(contentHeight, height);
+    content.y = -scroll.offset;
+  }
+
+  container.on('pointerdown', (event) => {
+    event.stopPropagation();
+    pressed = true;
+    scroll.dragStart(container.toLocal(event.global).y, performance.now());
+  });
+  container.on('globalpointermove', (event) => {
+    if (!pressed) return;
+    scroll.dragMove(container.toLocal(event.global).y, performance.now());
+    content.y = -scroll.offset;
+  });
+  const release = (event: PIXI.FederatedPointerEvent, inside: boolean) => {
+    if (!pressed) return;
+    pressed = false;
+    const distance = scroll.dragEnd(performance.now());
+    if (inside && distance < TAP_DISTANCE) onTap?.(content.toLocal(event.global).y);
+  };
+  container.on('pointerup', (event) => release(event, true));
+  container.on('pointerupoutside', (event) => release(event, false));
+  container.on('wheel', (event) => {
+    event.stopPropagation();
+    scroll.wheel(event.deltaY);
+    content.y = -scroll.offset;
+  });
+
+  resize(width, height);
+
+  return {
+    container,
+    content,
+    scroll,
+
+    resize,
+
+    setContentHeight(value: number) {
+      contentHeight = value;
+      scroll.setSize(contentHeight, height);
+      content.y = -scroll.offset;
+    },
+
+    scrollToEnd() {
+      scroll.scrollTo(scroll.maxOffset);
+      content.y = -scroll.offset;
+    },
+
+    update(deltaMs: number) {
+      if (!scroll.isMoving) return;
+      scroll.update(deltaMs);
+      content.y = -scroll.offset;
+    }
+  };
+}
+
+export type ScrollPanel = ReturnType<typeof createScrollPanel>;
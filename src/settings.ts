@@ -0,0 +1,155 @@
+import type { Container } from 'pixi.js';
+import { KeyValueStorage, defaultStorage } from './storage';
+
+export interface Settings {
+  // Multiplier on devicePixelRatio for the render resolution
+  resolutionScale: number;
+  // Cut transitions and calmer scene animations
+  reducedMotion: boolean;
+  // Performance HUD visibility
+  showFps: boolean;
+  // Multiplier on dialogue and UI text sizes
+  textScale: number;
+  // 0 to 1, applied to every sound
+  masterVolume: number;
+}
+
+export type SettingKey = keyof Settings;
+
+export interface NumberSettingRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+export const NUMBER_SETTING_RANGES: { [K in SettingKey]?: NumberSettingRange } = {
+  resolutionScale: { min: 0.5, max: 2, step: 0.25 },
+  textScale: { min: 0.75, max: 1.5, step: 0.25 },
+  masterVolume: { min: 0, max: 1, step: 0.1 }
+};
+
+export const DEFAULT_SETTINGS: Settings = {
+  resolutionScale: 1,
+  reducedMotion: false,
+  showFps: true,
+  textScale: 1,
+  masterVolume: 0.8
+};
+
+const STORAGE_KEY = 'pixi-demo-settings';
+
+export type SettingsHandler = (settings: Readonly<Settings>) => void;
+
+function clampToRange(value: number, range: NumberSettingRange): number {
+  // Round to the step so repeated steps do not drift, e.g. 0.30000000000000004
+  const stepped = Math.round((value - range.min) / range.step) * range.step + range.min;
+  return Math.min(range.max, Math.max(range.min, Number(stepped.toFixed(4))));
+}
+
+// Accept a stored value only when it has the right type, clamp numbers to their range
+function sanitizeSetting<K extends SettingKey>(key: K, value: unknown): Settings[K] {
+  const fallback = DEFAULT_SETTINGS[key];
+  if (typeof value !== typeof fallback) return fallback;
+
+  const range = NUMBER_SETTING_RANGES[key];
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) return fallback;
+    return (range ? clampToRange(value, range) : value) as Settings[K];
+  }
+  return value as Settings[K];
+}
+
+function loadSettings(storage: KeyValueStorage | null, defaults: Settings): Settings {
+  const settings = { ...defaults };
+  if (!storage) return settings;
+
+  try {
+    const raw = storage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : null;
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      const stored = parsed as Record<string, unknown>;
+      const assign = <K extends SettingKey>(key: K) => {
+        settings[key] = sanitizeSetting(key, stored[key]);
+      };
+      (Object.keys(settings) as SettingKey[]).forEach(key => {
+        if (key in stored) assign(key);
+      });
+    }
+  } catch (e) {
+    console.warn('Ignoring unreadable settings:', e);
+  }
+  return settings;
+}
+
+// Typed, persisted settings that scenes read and subscribe to
+export function createSettingsService(storage: KeyValueStorage | null = defaultStorage(), defaults = DEFAULT_SETTINGS) {
+  const settings = loadSettings(storage, defaults);
+  const handlers = new Set<SettingsHandler>();
+
+  function save() {
+    try {
+      storage?.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch (e) {
+      console.warn('Failed to save settings:', e);
+    }
+  }
+
+  function notify() {
+    // Copy so handlers can unsubscribe while being notified
+    Array.from(handlers).forEach(handler => {
+      try {
+        handler(settings);
+      } catch (e) {
+        console.warn('Error in settings handler:', e);
+      }
+    });
+  }
+
+  const service = {
+    get<K extends SettingKey>(key: K): Settings[K] {
+      return settings[key];
+    },
+
+    getAll(): Readonly<Settings> {
+      return settings;
+    },
+
+    set<K extends SettingKey>(key: K, value: Settings[K]) {
+      const next = sanitizeSetting(key, value);
+      if (settings[key] === next) return;
+      settings[key] = next;
+      save();
+      notify();
+    },
+
+    // Move a number setting by one step of its range
+    step(key: SettingKey, direction: 1 | -1) {
+      const range = NUMBER_SETTING_RANGES[key];
+      const value = settings[key];
+      if (!range || typeof value !== 'number') return;
+      service.set(key, value + range.step * direction);
+    },
+
+    reset() {
+      Object.assign(settings, defaults);
+      save();
+      notify();
+    },
+
+    // Calls handler now and on every change, until owner is destroyed when one is given
+    onChange(owner: Container | null, handler: SettingsHandler) {
+      const unsubscribe = () => {
+        handlers.delete(handler);
+        owner?.off('destroyed', unsubscribe);
+      };
+      handlers.add(handler);
+      owner?.once('destroyed', unsubscribe);
+      handler(settings);
+      return unsubscribe;
+    }
+  };
+
+  return service;
+}
+
+export type SettingsService = ReturnType<typeof createSettingsService>;
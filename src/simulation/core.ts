@@ -0,0 +1,40 @@
+// Shared building blocks for the renderer-independent scene models
+
+// Time source in milliseconds
+export interface Clock {
+  now(): number;
+}
+
+// Returns a number in [0, 1), same contract as Math.random
+export type RandomSource = () => number;
+
+// Clock that only moves when told to, used for scene time and tests
+export interface ManualClock extends Clock {
+  advance(ms: number): void;
+}
+
+export const systemClock: Clock = {
+  now: () => performance.now()
+};
+
+export function createManualClock(startMs = 0): ManualClock {
+  let time = startMs;
+  return {
+    now: () => time,
+    advance(ms: number) {
+      time += ms;
+    }
+  };
+}
+
+// Deterministic random source (mulberry32), same seed gives the same sequence
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
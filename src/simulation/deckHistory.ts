@@ -0,0 +1,111 @@
+// Undo and redo for card moves between piles. Actions are applied to plain piles of
+// card ids (bottom to top), so the history works on the deck model and on snapshots.
+
+// move: one card from the top of a pile to the top of another
+// shuffle: a pile reordered in place
+export type DeckAction =
+  | { type: 'move'; cardId: number; from: number; to: number }
+  | { type: 'shuffle'; pile: number; before: number[]; after: number[] };
+
+export interface DeckHistoryState {
+  // Oldest first
+  past: DeckAction[];
+  // Next redo last
+  future: DeckAction[];
+}
+
+// Oldest actions are dropped beyond this, a saved session stays small
+export const DECK_HISTORY_LIMIT = 500;
+
+function topOf(pile: number[] | undefined): number | undefined {
+  return pile ? pile[pile.length - 1] : undefined;
+}
+
+function sameOrder(a: readonly number[], b: readonly number[]): boolean {
+  return a.length === b.length && a.every((cardId, i) => cardId === b[i]);
+}
+
+// Play an action forwards, returns false and leaves the piles alone when they do not match it
+export function applyDeckAction(piles: number[][], action: DeckAction): boolean {
+  if (action.type === 'move') {
+    if (!piles[action.to] || topOf(piles[action.from]) !== action.cardId) return false;
+    piles[action.from].pop();
+    piles[action.to].push(action.cardId);
+    return true;
+  }
+  const cards = piles[action.pile];
+  if (!cards || !sameOrder(cards, action.before)) return false;
+  cards.splice(0, cards.length, ...action.after);
+  return true;
+}
+
+// Play an action backwards, with the same check as applyDeckAction
+export function revertDeckAction(piles: number[][], action: DeckAction): boolean {
+  if (action.type === 'move') {
+    return applyDeckAction(piles, { ...action, from: action.to, to: action.from });
+  }
+  return applyDeckAction(piles, { ...action, before: action.after, after: action.before });
+}
+
+export function createDeckHistory(initial: DeckHistoryState = { past: [], future: [] }, limit = DECK_HISTORY_LIMIT) {
+  const past = [...initial.past].slice(-limit);
+  const future = [...initial.future];
+
+  return {
+    get canUndo() {
+      return past.length > 0;
+    },
+
+    get canRedo() {
+      return future.length > 0;
+    },
+
+    // A new action drops everything that could have been redone
+    record(action: DeckAction) {
+      past.push(action);
+      if (past.length > limit) past.shift();
+      future.length = 0;
+    },
+
+    // Revert the latest action on the piles and return it, null when there is
+    // nothing to undo. Piles that no longer match the action clear the history.
+    undo(piles: number[][]): DeckAction | null {
+      const action = past.pop();
+      if (!action) return null;
+      if (!revertDeckAction(piles, action)) {
+        past.length = 0;
+        future.length = 0;
+        return null;
+      }
+      future.push(action);
+      return action;
+    },
+
+    redo(piles: number[][]): DeckAction | null {
+      const action = future.pop();
+      if (!action) return null;
+      if (!applyDeckAction(piles, action)) {
+        past.length = 0;
+        future.length = 0;
+        return null;
+      }
+      past.push(action);
+      return action;
+    },
+
+    clear() {
+      past.length = 0;
+      future.length = 0;
+    },
+
+    // Copies, safe to serialize
+    getState(): DeckHistoryState {
+      return {
+        past: past.map(action => ({ ...action })),
+        future: future.map(action => ({ ...action }))
+      };
+    }
+  };
+}
+
+export type DeckHistory = ReturnType<typeof createDeckHistory>;
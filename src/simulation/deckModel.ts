@@ -0,0 +1,346 @@
+import { Clock, RandomSource } from './core';
+import { riffleShuffle, shuffle } from './shuffle';
+
+// Piles of the classic two-pile setup
+export const LEFT_PILE = 0;
+export const RIGHT_PILE = 1;
+
+// round-robin: deal from one pile to the others in turn, moving on when it runs empty
+// random: random source and target for every move
+// ping-pong: move a whole pile to its neighbour, bouncing back at the last pile
+export type CycleOrder = 'round-robin' | 'random' | 'ping-pong';
+
+export const CYCLE_ORDERS: CycleOrder[] = ['round-robin', 'random', 'ping-pong'];
+
+export type ShuffleStyle = 'shuffle' | 'riffle';
+
+export interface PileShuffle {
+  pile: number;
+  style: ShuffleStyle;
+  // Card ids from bottom to top before and after
+  before: number[];
+  after: number[];
+  // Riffle only: cards below this index of before formed the first half
+  cut: number;
+}
+
+export interface PileMove {
+  from: number;
+  to: number;
+}
+
+// Picks the piles of the next move, piles hold card ids from bottom to top
+export function createPileCycler(order: CycleOrder, pileCount: number, random: RandomSource) {
+  let source = 0;
+  let direction = 1;
+  let lastTarget = 0;
+
+  function nextNonEmpty(piles: number[][], start: number): number {
+    for (let i = 0; i < pileCount; i++) {
+      const pile = (start + i) % pileCount;
+      if (piles[pile].length > 0) return pile;
+    }
+    return -1;
+  }
+
+  return {
+    next(piles: number[][]): PileMove | null {
+      if (pileCount < 2 || nextNonEmpty(piles, 0) === -1) return null;
+
+      switch (order) {
+        case 'random': {
+          const sources = piles.map((_, i) => i).filter(i => piles[i].length > 0);
+          const from = sources[Math.floor(random() * sources.length)];
+          // Any pile but the source
+          const to = (from + 1 + Math.floor(random() * (pileCount - 1))) % pileCount;
+          return { from, to };
+        }
+
+        case 'round-robin': {
+          if (piles[source].length === 0) {
+            source = nextNonEmpty(piles, source + 1);
+            lastTarget = source;
+          }
+          let to = (lastTarget + 1) % pileCount;
+          if (to === source) to = (to + 1) % pileCount;
+          lastTarget = to;
+          return { from: source, to };
+        }
+
+        case 'ping-pong': {
+          // Turn around at either end, move on once the source runs empty
+          for (let step = 0; step < pileCount * 2; step++) {
+            const to = source + direction;
+            if (to < 0 || to >= pileCount) {
+              direction = -direction;
+            } else if (piles[source].length === 0) {
+              source = to;
+            } else {
+              return { from: source, to };
+            }
+          }
+          return null;
+        }
+      }
+    }
+  };
+}
+
+// A card travelling from the top of one pile to the top of another
+export interface CardFlight {
+  cardId: number;
+  from: number;
+  to: number;
+  // Stack position the card left in the source pile
+  sourceIndex: number;
+  // Stack position the card will take in the target pile, as planned at launch
+  targetIndex: number;
+  startTime: number;
+  durationMs: number;
+  // Small random landing offset so the stack does not look machine-made
+  jitterX: number;
+  jitterY: number;
+}
+
+// Values that can change while the simulation runs
+export interface DeckModelTuning {
+  // Time between two moves, counted from the previous launch
+  moveInterval: number;
+  durationMs: number;
+  // Cards in the air at the same time, 1 keeps the classic one card at a time
+  maxFlights: number;
+}
+
+export interface DeckModelOptions {
+  cardCount: number;
+  // Card ids per pile from bottom to top, e.g. from a saved snapshot. Replaces cardCount
+  // and pileCount, by default every card starts on the first pile.
+  piles?: number[][];
+  // First id given to added cards, defaults to one above the highest card id
+  nextCardId?: number;
+  // Defaults to two piles
+  pileCount?: number;
+  // Defaults to ping-pong, the classic back and forth between two piles
+  order?: CycleOrder;
+  // Time between two moves, counted from the previous launch
+  moveInterval: number;
+  durationMs: number;
+  // Defaults to 1
+  maxFlights?: number;
+  clock: Clock;
+  random: RandomSource;
+  onCardLaunched?: (flight: CardFlight) => void;
+  onCardLanded?: (flight: CardFlight) => void;
+}
+
+// Ace of Shadows simulation: cards move one at a time between piles
+export function createDeckModel(options: DeckModelOptions) {
+  const { clock, random } = options;
+  const tuning: DeckModelTuning = {
+    moveInterval: options.moveInterval,
+    durationMs: options.durationMs,
+    maxFlights: Math.max(1, options.maxFlights ?? 1)
+  };
+  const pileCount = Math.max(2, options.piles?.length ?? options.pileCount ?? 2);
+  const cycler = createPileCycler(options.order ?? 'ping-pong', pileCount, random);
+
+  // Card ids from bottom to top
+  const piles: number[][] = Array.from({ length: pileCount }, (_, i) => [...(options.piles?.[i] ?? [])]);
+  if (!options.piles) {
+    for (let i = 0; i < options.cardCount; i++) {
+      piles[0].push(i);
+    }
+  }
+  const highestCardId = piles.reduce((highest, cards) => cards.reduce((max, cardId) => Math.max(max, cardId), highest), -1);
+  // Ids of removed cards are not reused
+  let nextCardId = Math.max(options.nextCardId ?? 0, highestCardId + 1);
+  // Cards on piles, in the air or held by the user
+  let cardCount = piles.reduce((total, cards) => total + cards.length, 0);
+
+  const flights: CardFlight[] = [];
+  let lastMoveTime = clock.now();
+  // Automatic moves stop while the user handles cards
+  let paused = false;
+
+  function getFlightProgress(flight: CardFlight): number {
+    return Math.min(1, (clock.now() - flight.startTime) / flight.durationMs);
+  }
+
+  function landFinishedFlights(all = false) {
+    for (let i = 0; i < flights.length; i++) {
+      const flight = flights[i];
+      if (!all && getFlightProgress(flight) < 1) continue;
+
+      flights.splice(i--, 1);
+      piles[flight.to].push(flight.cardId);
+      options.onCardLanded?.(flight);
+    }
+  }
+
+  function launchNextCard() {
+    const now = clock.now();
+
+    // Wait for previous animations to complete
+    if (paused || flights.length >= tuning.maxFlights) return;
+
+    // Check if it's time to move next card
+    if (now - lastMoveTime < tuning.moveInterval) return;
+
+    const move = cycler.next(piles);
+    if (!move) return;
+
+    const { from, to } = move;
+    const cardId = piles[from].pop();
+    if (cardId === undefined) return;
+
+    const flight: CardFlight = {
+      cardId,
+      from,
+      to,
+      sourceIndex: piles[from].length,
+      // Cards already flying to the same pile land first
+      targetIndex: piles[to].length + flights.filter(other => other.to === to).length,
+      startTime: now,
+      durationMs: tuning.durationMs,
+      jitterX: (random() - 0.5) * 6,
+      jitterY: (random() - 0.5) * 6
+    };
+    flights.push(flight);
+    lastMoveTime = now;
+    options.onCardLaunched?.(flight);
+  }
+
+  return {
+    piles,
+    flights,
+    getFlightProgress,
+
+    // Land finished flights, then start the next move if one is due
+    update() {
+      landFinishedFlights();
+      launchNextCard();
+    },
+
+    // Land every card in the air at once, in launch order
+    finishFlights() {
+      landFinishedFlights(true);
+    },
+
+    // Stack position a card in the air lands on as the piles are now. Differs from
+    // targetIndex when cards were put onto or taken off the target pile after the launch.
+    getTargetIndex(flight: CardFlight): number {
+      const position = flights.indexOf(flight);
+      if (position === -1) return flight.targetIndex;
+      // Cards already flying to the same pile land first. Counted in a loop, renderers call
+      // this for every card in the air on every frame.
+      let ahead = 0;
+      for (let i = 0; i < position; i++) {
+        if (flights[i].to === flight.to) ahead++;
+      }
+      return piles[flight.to].length + ahead;
+    },
+
+    // Piles as they will be once every card in the air has landed
+    getSettledPiles(): number[][] {
+      const settled = piles.map(cards => [...cards]);
+      flights.forEach(flight => settled[flight.to].push(flight.cardId));
+      return settled;
+    },
+
+    getTopCardId(pile: number): number | null {
+      const cards = piles[pile];
+      return cards.length > 0 ? cards[cards.length - 1] : null;
+    },
+
+    // Move the top card of a pile straight onto another one.
+    // Returns the moved card id, null when the pile is empty.
+    moveTopCard(from: number, to: number): number | null {
+      const cardId = piles[from].pop();
+      if (cardId === undefined) return null;
+      piles[to].push(cardId);
+      return cardId;
+    },
+
+    // Lift the top card off a pile, e.g. when the user picks it up.
+    // Until putCard it is on no pile, like a card in flight.
+    takeTopCard(pile: number): number | null {
+      return piles[pile].pop() ?? null;
+    },
+
+    putCard(pile: number, cardId: number) {
+      piles[pile].push(cardId);
+    },
+
+    // Reorder a pile in place, cards in the air are not affected
+    shufflePile(pile: number, style: ShuffleStyle, shuffleRandom: RandomSource = random): PileShuffle {
+      const before = [...piles[pile]];
+      let after: number[];
+      let cut = before.length;
+      if (style === 'riffle') {
+        ({ items: after, cut } = riffleShuffle(before, shuffleRandom));
+      } else {
+        after = shuffle(before, shuffleRandom);
+      }
+      piles[pile].splice(0, before.length, ...after);
+      return { pile, style, before, after, cut };
+    },
+
+    get tuning(): Readonly<DeckModelTuning> {
+      return tuning;
+    },
+
+    // Takes effect from the next launch, cards in the air keep their duration
+    setTuning(changes: Partial<DeckModelTuning>) {
+      Object.assign(tuning, changes);
+      tuning.maxFlights = Math.max(1, Math.round(tuning.maxFlights));
+    },
+
+    get cardCount() {
+      return cardCount;
+    },
+
+    get nextCardId() {
+      return nextCardId;
+    },
+
+    // Put new cards on top of a pile, returns their ids
+    addCards(count: number, pile = 0): number[] {
+      const cardIds = Array.from({ length: Math.max(0, count) }, () => nextCardId++);
+      piles[pile].push(...cardIds);
+      cardCount += cardIds.length;
+      return cardIds;
+    },
+
+    // Take cards off the top of the fullest piles, cards in the air or held stay.
+    // Returns fewer cards than asked for when the piles run empty.
+    removeCards(count: number): { pile: number; cardId: number }[] {
+      const removed: { pile: number; cardId: number }[] = [];
+      for (let i = 0; i < count; i++) {
+        const pile = piles.reduce((fullest, cards, index) => (cards.length > piles[fullest].length ? index : fullest), 0);
+        const cardId = piles[pile].pop();
+        if (cardId === undefined) break;
+        removed.push({ pile, cardId });
+      }
+      cardCount -= removed.length;
+      return removed;
+    },
+
+    get isPaused() {
+      return paused;
+    },
+
+    // Stop launching cards, flights already in the air still land
+    pause() {
+      paused = true;
+    },
+
+    // Launch again, the next move waits a full interval
+    resume() {
+      if (!paused) return;
+      paused = false;
+      lastMoveTime = clock.now();
+    }
+  };
+}
+
+export type DeckModel = ReturnType<typeof createDeckModel>;
@@ -0,0 +1,95 @@
+import { DeckAction, DeckHistoryState } from './deckHistory';
+import { DeckModel } from './deckModel';
+import { KeyValueStorage, defaultStorage } from '../storage';
+
+// Saved Ace of Shadows session: which card lies on which pile and in which order,
+// plus the move history. Cards in the air are saved where they were going to land.
+
+// Bump when the format changes, older snapshots are then ignored
+export const DECK_SNAPSHOT_VERSION = 1;
+
+export interface DeckSnapshot {
+  version: number;
+  // Card ids per pile from bottom to top
+  piles: number[][];
+  nextCardId: number;
+  history: DeckHistoryState;
+}
+
+export function createDeckSnapshot(model: DeckModel, history: DeckHistoryState = { past: [], future: [] }): DeckSnapshot {
+  return {
+    version: DECK_SNAPSHOT_VERSION,
+    piles: model.getSettledPiles(),
+    nextCardId: model.nextCardId,
+    history
+  };
+}
+
+const isCardId = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+const isCardIdList = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(isCardId);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function isDeckAction(value: unknown, pileCount: number): value is DeckAction {
+  if (!isRecord(value)) return false;
+  const isPile = (pile: unknown) => typeof pile === 'number' && Number.isInteger(pile) && pile >= 0 && pile < pileCount;
+  if (value.type === 'move') {
+    return isCardId(value.cardId) && isPile(value.from) && isPile(value.to) && value.from !== value.to;
+  }
+  if (value.type === 'shuffle') {
+    return isPile(value.pile) && isCardIdList(value.before) && isCardIdList(value.after);
+  }
+  return false;
+}
+
+const isDeckActionList = (value: unknown, pileCount: number): value is DeckAction[] =>
+  Array.isArray(value) && value.every(action => isDeckAction(action, pileCount));
+
+// A snapshot from JSON, or null when it is from another version or does not add up.
+// A broken history is dropped, the piles alone are still worth restoring.
+export function parseDeckSnapshot(value: unknown): DeckSnapshot | null {
+  if (!isRecord(value)) return null;
+  if (value.version !== DECK_SNAPSHOT_VERSION) return null;
+  const piles = value.piles;
+  if (!Array.isArray(piles) || piles.length < 2 || !piles.every(isCardIdList)) return null;
+
+  // Every card lies on exactly one pile
+  const cardIds = piles.flat();
+  if (new Set(cardIds).size !== cardIds.length) return null;
+  const highestCardId = cardIds.reduce((highest, cardId) => Math.max(highest, cardId), -1);
+  const nextCardId = isCardId(value.nextCardId) ? Math.max(value.nextCardId, highestCardId + 1) : highestCardId + 1;
+
+  const history = isRecord(value.history) ? value.history : {};
+  const { past, future } = history;
+  const validHistory = isDeckActionList(past, piles.length) && isDeckActionList(future, piles.length);
+
+  return {
+    version: DECK_SNAPSHOT_VERSION,
+    piles: piles.map(cards => [...cards]),
+    nextCardId,
+    history: validHistory ? { past, future } : { past: [], future: [] }
+  };
+}
+
+export function loadDeckSnapshot(key: string, storage: KeyValueStorage | null = defaultStorage()): DeckSnapshot | null {
+  if (!storage) return null;
+  try {
+    const raw = storage.getItem(key);
+    return raw ? parseDeckSnapshot(JSON.parse(raw)) : null;
+  } catch (e) {
+    console.warn('Ignoring unreadable deck snapshot:', e);
+    return null;
+  }
+}
+
+export function saveDeckSnapshot(key: string, snapshot: DeckSnapshot, storage: KeyValueStorage | null = defaultStorage()) {
+  try {
+    storage?.setItem(key, JSON.stringify(snapshot));
+  } catch (e) {
+    console.warn('Failed to save deck snapshot:', e);
+  }
+}
@@ -0,0 +1,254 @@
+// A single dialogue line as shown by the Magic Words scene
+export interface DialogueLine {
+  name: string;
+  text: string;
+}
+
+// Dialogue graph: nodes of lines that end in player choices, a jump to another node or an
+// ending. Variables set by choices decide which lines, choices and jumps are taken.
+
+export type DialogueValue = number | string | boolean;
+
+export type DialogueVariables = Record<string, DialogueValue>;
+
+export type ComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+export const COMPARISON_OPERATORS: ComparisonOperator[] = ['==', '!=', '<', '<=', '>', '>='];
+
+// Every entry must hold, a plain value is an equality check: { trust: { '>=': 2 }, metAmy: true }.
+// Variables that were never set read as false.
+export type DialogueCondition = Record<string, DialogueValue | Partial<Record<ComparisonOperator, DialogueValue>>>;
+
+// New values, or { add: n } to count up from the current number
+export type DialogueAssignment = Record<string, DialogueValue | { add: number }>;
+
+export interface DialogueGraphLine extends DialogueLine {
+  if?: DialogueCondition;
+}
+
+export interface DialogueChoice {
+  text: string;
+  // Node to continue with, without one the node's own next or end applies
+  goto?: string;
+  set?: DialogueAssignment;
+  if?: DialogueCondition;
+}
+
+export interface DialogueJump {
+  goto: string;
+  if?: DialogueCondition;
+}
+
+export interface DialogueNode {
+  lines?: DialogueGraphLine[];
+  choices?: DialogueChoice[];
+  // Where to go after the lines when there is nothing to choose, the first jump that holds
+  next?: string | DialogueJump[];
+  // Name of the ending reached when the node has nowhere to go
+  end?: string;
+}
+
+export interface DialogueGraph {
+  start: string;
+  variables?: DialogueVariables;
+  nodes: Record<string, DialogueNode>;
+}
+
+const LINEAR_START = 'start';
+// Jumps between two shown lines before a graph counts as looping
+const MAX_JUMPS = 1000;
+
+// The flat line list as a graph of one node, or the graph as it is
+export function loadDialogueGraph(dialogue: DialogueLine[] | DialogueGraph): DialogueGraph {
+  if (!Array.isArray(dialogue)) return dialogue;
+  return { start: LINEAR_START, nodes: { [LINEAR_START]: { lines: dialogue } } };
+}
+
+function compare(value: DialogueValue | undefined, operator: ComparisonOperator, expected: DialogueValue): boolean {
+  const actual = value ?? false;
+  switch (operator) {
+    case '==': return actual === expected;
+    case '!=': return actual !== expected;
+  }
+  if (typeof actual !== 'number' || typeof expected !== 'number') return false;
+  switch (operator) {
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+  }
+}
+
+export function checkDialogueCondition(condition: DialogueCondition | undefined, variables: DialogueVariables): boolean {
+  if (!condition) return true;
+  return Object.entries(condition).every(([name, test]) => {
+    if (typeof test !== 'object') return compare(variables[name], '==', test);
+    return (Object.keys(test) as ComparisonOperator[]).every(operator => compare(variables[name], operator, test[operator]!));
+  });
+}
+
+export function applyDialogueAssignment(assignment: DialogueAssignment | undefined, variables: DialogueVariables) {
+  if (!assignment) return;
+  Object.entries(assignment).forEach(([name, value]) => {
+    if (typeof value === 'object') {
+      const current = variables[name];
+      variables[name] = (typeof current === 'number' ? current : 0) + value.add;
+    } else {
+      variables[name] = value;
+    }
+  });
+}
+
+// Where a run is, plain data so it can be kept and restored, e.g. to go back to a line
+export interface DialogueState {
+  nodeId: string;
+  // Line of the node shown last, -1 before its first line
+  lineIndex: number;
+  // Line on screen, it may belong to an earlier node after a jump
+  shown: { nodeId: string; lineIndex: number } | null;
+  variables: DialogueVariables;
+  finished: boolean;
+  // Name of the ending reached, null for the end of a node without one
+  ending: string | null;
+}
+
+export interface AvailableChoice {
+  choice: DialogueChoice;
+  // Position in the node's choices, passed to choose
+  index: number;
+}
+
+// Walks a dialogue graph line by line, waiting at choices until one is picked
+export function createDialogueRunner(graph: DialogueGraph) {
+  let state = initialState();
+
+  function initialState(): DialogueState {
+    return {
+      nodeId: graph.start,
+      lineIndex: -1,
+      shown: null,
+      variables: { ...graph.variables },
+      finished: false,
+      ending: null
+    };
+  }
+
+  function node(): DialogueNode {
+    return graph.nodes[state.nodeId] ?? {};
+  }
+
+  function nextLineIndex(): number {
+    const lines = node().lines ?? [];
+    for (let i = state.lineIndex + 1; i < lines.length; i++) {
+      if (checkDialogueCondition(lines[i].if, state.variables)) return i;
+    }
+    return -1;
+  }
+
+  function availableChoices(): AvailableChoice[] {
+    if (state.finished || nextLineIndex() >= 0) return [];
+    return (node().choices ?? [])
+      .map((choice, index) => ({ choice, index }))
+      .filter(({ choice }) => checkDialogueCondition(choice.if, state.variables));
+  }
+
+  function jumpTarget(current: DialogueNode): string | null {
+    if (typeof current.next === 'string') return current.next;
+    const jump = current.next?.find(candidate => checkDialogueCondition(candidate.if, state.variables));
+    return jump ? jump.goto : null;
+  }
+
+  function enter(nodeId: string) {
+    state.nodeId = nodeId;
+    state.lineIndex = -1;
+  }
+
+  // Move to the next line that holds, following jumps, and stop there, at choices or at an end
+  function step() {
+    for (let jumps = 0; jumps <= MAX_JUMPS; jumps++) {
+      const next = nextLineIndex();
+      if (next >= 0) {
+        state.lineIndex = next;
+        state.shown = { nodeId: state.nodeId, lineIndex: next };
+        return;
+      }
+      if (availableChoices().length > 0) return;
+      const current = node();
+      const target = jumpTarget(current);
+      if (target === null) {
+        state.finished = true;
+        state.ending = current.end ?? null;
+        return;
+      }
+      enter(target);
+    }
+    console.warn(`Dialogue stopped after ${MAX_JUMPS} jumps without a line, the graph loops`);
+    state.finished = true;
+  }
+
+  return {
+    get isFinished() {
+      return state.finished;
+    },
+
+    get ending() {
+      return state.ending;
+    },
+
+    get variables(): Readonly<DialogueVariables> {
+      return state.variables;
+    },
+
+    // Line on screen, null before the first one
+    current(): DialogueGraphLine | null {
+      const shown = state.shown;
+      return shown ? graph.nodes[shown.nodeId]?.lines?.[shown.lineIndex] ?? null : null;
+    },
+
+    // Choices to offer once the current line is the last one before them
+    choices(): AvailableChoice[] {
+      return availableChoices();
+    },
+
+    // Next line; stays put while choices wait and once the dialogue is over
+    advance(): DialogueGraphLine | null {
+      if (!state.finished && availableChoices().length === 0) step();
+      return state.finished ? null : this.current();
+    },
+
+    // Pick one of the choices, by its index in the node, and go on to the next line
+    choose(index: number): DialogueGraphLine | null {
+      const picked = availableChoices().find(available => available.index === index);
+      if (!picked) return this.current();
+      applyDialogueAssignment(picked.choice.set, state.variables);
+      if (picked.choice.goto !== undefined) {
+        enter(picked.choice.goto);
+      } else {
+        // Without a target the node goes on as if there had been nothing to choose
+        const target = jumpTarget(node());
+        if (target === null) {
+          state.finished = true;
+          state.ending = node().end ?? null;
+          return null;
+        }
+        enter(target);
+      }
+      step();
+      return state.finished ? null : this.current();
+    },
+
+    getState(): DialogueState {
+      return JSON.parse(JSON.stringify(state));
+    },
+
+    restore(saved: DialogueState) {
+      state = JSON.parse(JSON.stringify(saved));
+    },
+
+    reset() {
+      state = initialState();
+    }
+  };
+}
+
+export type DialogueRunner = ReturnType<typeof createDialogueRunner>;
@@ -0,0 +1,249 @@
+import bundledFixture from '../fixtures/magicWords.json';
+import { KeyValueStorage, defaultStorage } from '../storage';
+
+// Where the Magic Words payload comes from: the remote API, the copy saved from its last
+// good answer, the fixture bundled with the game or an object handed in directly.
+
+// http: the network, cache: last good network payload, fixture: bundled JSON, inline: an object
+export type DialogueSourceKind = 'http' | 'cache' | 'fixture' | 'inline';
+
+export interface DialogueSource {
+  kind: DialogueSourceKind;
+  // Shown to the player, e.g. "Network"
+  label: string;
+  // Raw payload, checked against the schema by the caller. Rejects with an AbortError when
+  // the signal fires.
+  load(signal?: AbortSignal): Promise<unknown>;
+}
+
+export interface HttpSourceOptions {
+  // Time one attempt may take
+  timeoutMs?: number;
+  // Attempts after the first one, for network errors, timeouts and server errors
+  retries?: number;
+  // Wait before the first retry, doubled for every further one
+  backoffMs?: number;
+  fetch?: typeof fetch;
+}
+
+const HTTP_DEFAULTS = {
+  timeoutMs: 5000,
+  retries: 2,
+  backoffMs: 500
+};
+
+type LoadError = Error & { retryable?: boolean };
+
+function loadError(message: string, retryable: boolean): LoadError {
+  return Object.assign(new Error(message), { retryable });
+}
+
+function abortError(signal?: AbortSignal): Error {
+  const reason = signal?.reason;
+  return reason instanceof Error && reason.name === 'AbortError' ? reason : new DOMException('Loading was aborted', 'AbortError');
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+// Resolves after ms, rejects right away when the signal fires
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Request timeouts and rate limits are worth another try, other client errors are not
+function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 408 || status === 429;
+}
+
+export function createHttpSource(url: string, options: HttpSourceOptions = {}): DialogueSource {
+  const { timeoutMs, retries, backoffMs } = { ...HTTP_DEFAULTS, ...options };
+  const fetchPayload = options.fetch ?? ((input: RequestInfo | URL, init?: RequestInit) => fetch(input, init));
+
+  // One request, aborted by the caller's signal or by the timeout
+  async function attempt(signal?: AbortSignal): Promise<unknown> {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      const response = await fetchPayload(url, { signal: controller.signal });
+      if (!response.ok) {
+        throw loadError(`Server answered ${response.status}`, isRetryableStatus(response.status));
+      }
+      try {
+        return await response.json();
+      } catch (error) {
+        if (signal?.aborted || timedOut) throw error;
+        // Broken JSON does not get better by asking again
+        throw loadError(`Response is not JSON: ${error instanceof Error ? error.message : String(error)}`, false);
+      }
+    } catch (error) {
+      if (signal?.aborted) throw abortError(signal);
+      if (timedOut) throw loadError(`No answer within ${timeoutMs} ms`, true);
+      if ((error as LoadError).retryable !== undefined) throw error;
+      // fetch rejects with a TypeError when the network is down
+      throw loadError(`Network error: ${error instanceof Error ? error.message : String(error)}`, true);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  return {
+    kind: 'http',
+    label: 'Network',
+
+    async load(signal?: AbortSignal) {
+      for (let tries = 0; ; tries++) {
+        if (signal?.aborted) throw abortError(signal);
+        try {
+          return await attempt(signal);
+        } catch (error) {
+          if (isAbortError(error) || !(error as LoadError).retryable || tries >= retries) throw error;
+          console.warn(`Retrying ${url} after: ${(error as Error).message}`);
+          await wait(backoffMs * 2 ** tries, signal);
+        }
+      }
+    }
+  };
+}
+
+// A copy so callers cannot change the source's payload between loads
+function settled(payload: unknown, signal?: AbortSignal): Promise<unknown> {
+  if (signal?.aborted) return Promise.reject(abortError(signal));
+  return Promise.resolve(JSON.parse(JSON.stringify(payload)));
+}
+
+// The dialogue shipped with the game, so the scene plays without a network
+export function createFixtureSource(payload: unknown = bundledFixture): DialogueSource {
+  return {
+    kind: 'fixture',
+    label: 'Offline copy',
+    load: signal => settled(payload, signal)
+  };
+}
+
+export function createInlineSource(payload: unknown, label = 'Inline data'): DialogueSource {
+  return {
+    kind: 'inline',
+    label,
+    load: signal => settled(payload, signal)
+  };
+}
+
+export interface CachedPayload {
+  payload: unknown;
+  // Date.now() when it was saved
+  savedAt: number;
+}
+
+// Last payload a source delivered, kept between visits
+export function createPayloadCache(key: string, storage: KeyValueStorage | null = defaultStorage()) {
+  return {
+    read(): CachedPayload | null {
+      if (!storage) return null;
+      try {
+        const raw = storage.getItem(key);
+        const stored = raw ? JSON.parse(raw) : null;
+        if (stored && typeof stored === 'object' && 'payload' in stored && typeof stored.savedAt === 'number') {
+          return { payload: stored.payload, savedAt: stored.savedAt };
+        }
+      } catch (e) {
+        console.warn('Ignoring unreadable cached payload:', e);
+      }
+      return null;
+    },
+
+    save(payload: unknown, now = Date.now()) {
+      try {
+        storage?.setItem(key, JSON.stringify({ payload, savedAt: now }));
+      } catch (e) {
+        console.warn('Failed to cache payload:', e);
+      }
+    }
+  };
+}
+
+export type PayloadCache = ReturnType<typeof createPayloadCache>;
+
+export function createCacheSource(cache: PayloadCache): DialogueSource {
+  return {
+    kind: 'cache',
+    label: 'Saved copy',
+
+    load(signal?: AbortSignal) {
+      const cached = cache.read();
+      if (!cached) return Promise.reject(new Error('Nothing saved yet'));
+      return settled(cached.payload, signal);
+    }
+  };
+}
+
+export interface SourceFailure {
+  source: DialogueSource;
+  error: Error;
+}
+
+export interface LoadedPayload<T = unknown> {
+  // As the source delivered it
+  payload: unknown;
+  // What parse made of it
+  parsed: T;
+  source: DialogueSource;
+  // Sources tried before, with the reason each was passed over
+  failures: SourceFailure[];
+}
+
+export interface LoadFromSourcesOptions<T> {
+  signal?: AbortSignal;
+  // Turns a payload into what the caller works with, e.g. checks it against the schema.
+  // null passes over a payload that cannot be used. Without it payloads are used as they are.
+  parse?: (payload: unknown) => T | null;
+  // Receives network payloads that were parsed, so a later visit can fall back to them
+  cache?: PayloadCache;
+}
+
+// Try the sources in order and use the first payload that loads and parses.
+// An abort ends the search instead of falling back; when every source fails the error
+// lists all reasons.
+export async function loadFromSources<T = unknown>(
+  sources: readonly DialogueSource[],
+  { signal, parse = payload => payload as T, cache }: LoadFromSourcesOptions<T> = {}
+): Promise<LoadedPayload<T>> {
+  const failures: SourceFailure[] = [];
+  for (const source of sources) {
+    try {
+      const payload = await source.load(signal);
+      const parsed = parse(payload);
+      if (parsed === null) throw new Error('Payload is not usable');
+      if (source.kind === 'http') cache?.save(payload);
+      return { payload, parsed, source, failures };
+    } catch (error) {
+      if (isAbortError(error) || signal?.aborted) throw abortError(signal);
+      failures.push({ source, error: error instanceof Error ? error : new Error(String(error)) });
+    }
+  }
+  const reasons = failures.map(failure => `${failure.source.label}: ${failure.error.message}`).join('; ');
+  throw Object.assign(new Error(`No dialogue source could be loaded (${reasons})`), { failures });
+}
@@ -0,0 +1,415 @@
+import {
+  COMPARISON_OPERATORS,
+  DialogueAssignment,
+  DialogueChoice,
+  DialogueCondition,
+  DialogueGraph,
+  DialogueGraphLine,
+  DialogueJump,
+  DialogueLine,
+  DialogueNode,
+  DialogueValue,
+  DialogueVariables
+} from './dialogueModel';
+
+// Magic Words payload: the dialogue lines and the images they refer to by name.
+
+export interface EmojiEntry {
+  name: string;
+  url: string;
+}
+
+export interface AvatarEntry {
+  name: string;
+  url: string;
+  // Side of the screen the speaker sits on
+  position?: 'left' | 'right';
+}
+
+export interface MagicWordsData {
+  // A flat list of lines, or a graph with choices and endings
+  dialogue: DialogueLine[] | DialogueGraph;
+  emojies: EmojiEntry[];
+  avatars: AvatarEntry[];
+}
+
+// error: the entry was left out, warning: it is used as it is
+export type SchemaIssueSeverity = 'error' | 'warning';
+
+export interface SchemaIssue {
+  // JSON path of the value, e.g. $.dialogue[3].name
+  path: string;
+  message: string;
+  severity: SchemaIssueSeverity;
+}
+
+export interface MagicWordsValidation {
+  // null when the payload is unusable as a whole, otherwise the entries that passed
+  data: MagicWordsData | null;
+  issues: SchemaIssue[];
+}
+
+// Field names older payloads used, reported with a hint instead of being guessed at
+const RENAMED_FIELDS: Record<string, string> = {
+  dialogues: 'dialogue',
+  messages: 'dialogue',
+  emojis: 'emojies',
+  portraits: 'avatars',
+  character: 'name',
+  speaker: 'name',
+  message: 'text'
+};
+
+const AVATAR_POSITIONS = ['left', 'right'];
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return typeof value === 'string' ? `"${value}"` : typeof value;
+}
+
+// Path segments without a scheme or whitespace, optionally starting with ./ or ../
+const RELATIVE_PATH = /^(\.\.?\/)*[\w.-]+(\/[\w.-]+)*$/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Collects issues while walking the payload
+function createChecker() {
+  const issues: SchemaIssue[] = [];
+
+  function report(path: string, message: string, severity: SchemaIssueSeverity = 'error') {
+    issues.push({ path, message, severity });
+  }
+
+  // A required string field, reported with the old field name when one was used instead
+  function string(entry: Record<string, unknown>, key: string, path: string, allowEmpty = false): string | null {
+    const value = entry[key];
+    if (typeof value === 'string' && (allowEmpty || value.trim() !== '')) return value;
+    if (value === undefined) {
+      const oldName = Object.keys(RENAMED_FIELDS).find(name => RENAMED_FIELDS[name] === key && name in entry);
+      report(`${path}.${key}`, oldName ? `missing, found "${oldName}" which is no longer read` : 'missing');
+    } else {
+      report(`${path}.${key}`, typeof value === 'string' ? 'must not be empty' : `expected a string, got ${describe(value)}`);
+    }
+    return null;
+  }
+
+  function url(entry: Record<string, unknown>, path: string): string | null {
+    const value = string(entry, 'url', path);
+    if (value === null) return null;
+    // Relative paths point at images shipped with the game, e.g. ./assets/magic/sad.png
+    if (!/^(https?:|data:)/i.test(value) && !RELATIVE_PATH.test(value)) {
+      report(`${path}.url`, `expected an http(s) or data URL or a relative path, got "${value}"`);
+      return null;
+    }
+    return value;
+  }
+
+  // A list of entries, the ones that fail are left out
+  function list<T>(
+    root: Record<string, unknown>,
+    key: string,
+    required: boolean,
+    readEntry: (entry: Record<string, unknown>, path: string) => T | null,
+    parentPath = '$'
+  ): T[] | null {
+    const path = `${parentPath}.${key}`;
+    const value = root[key];
+    if (value === undefined) {
+      const oldName = Object.keys(RENAMED_FIELDS).find(name => RENAMED_FIELDS[name] === key && name in root);
+      if (oldName) {
+        report(path, `missing, found "${oldName}" which is no longer read`, required ? 'error' : 'warning');
+      } else if (required) {
+        report(path, 'missing');
+      }
+      return required ? null : [];
+    }
+    if (!Array.isArray(value)) {
+      report(path, `expected an array, got ${describe(value)}`);
+      return required ? null : [];
+    }
+    const entries: T[] = [];
+    value.forEach((item, i) => {
+      const itemPath = `${path}[${i}]`;
+      if (!isRecord(item)) {
+        report(itemPath, `expected an object, got ${describe(item)}`);
+        return;
+      }
+      const entry = readEntry(item, itemPath);
+      if (entry) entries.push(entry);
+    });
+    return entries;
+  }
+
+  return { issues, report, string, url, list };
+}
+
+type Checker = ReturnType<typeof createChecker>;
+
+const isDialogueValue = (value: unknown): value is DialogueValue =>
+  typeof value === 'string' || typeof value === 'boolean' || (typeof value === 'number' && Number.isFinite(value));
+
+// Optional "if" of a line, choice or jump; undefined when missing, null when broken
+function readCondition(check: Checker, entry: Record<string, unknown>, path: string): DialogueCondition | undefined | null {
+  const value = entry.if;
+  if (value === undefined) return undefined;
+  if (!isRecord(value)) {
+    check.report(`${path}.if`, `expected an object, got ${describe(value)}`);
+    return null;
+  }
+  let valid = true;
+  Object.entries(value).forEach(([name, test]) => {
+    if (isDialogueValue(test)) return;
+    if (!isRecord(test) || Object.keys(test).length === 0) {
+      check.report(`${path}.if.${name}`, `expected a value or a comparison, got ${describe(test)}`);
+      valid = false;
+      return;
+    }
+    Object.entries(test).forEach(([operator, expected]) => {
+      const ordered = operator !== '==' && operator !== '!=';
+      if (!(COMPARISON_OPERATORS as string[]).includes(operator)) {
+        check.report(`${path}.if.${name}`, `unknown comparison "${operator}"`);
+        valid = false;
+      } else if (ordered ? typeof expected !== 'number' : !isDialogueValue(expected)) {
+        check.report(`${path}.if.${name}`, `"${operator}" needs ${ordered ? 'a number' : 'a value'}, got ${describe(expected)}`);
+        valid = false;
+      }
+    });
+  });
+  return valid ? value as DialogueCondition : null;
+}
+
+function readAssignment(check: Checker, entry: Record<string, unknown>, path: string): DialogueAssignment | undefined | null {
+  const value = entry.set;
+  if (value === undefined) return undefined;
+  if (!isRecord(value)) {
+    check.report(`${path}.set`, `expected an object, got ${describe(value)}`);
+    return null;
+  }
+  let valid = true;
+  Object.entries(value).forEach(([name, assigned]) => {
+    if (isDialogueValue(assigned)) return;
+    if (isRecord(assigned) && typeof assigned.add === 'number' && Object.keys(assigned).length === 1) return;
+    check.report(`${path}.set.${name}`, `expected a value or { "add": number }, got ${describe(assigned)}`);
+    valid = false;
+  });
+  return valid ? value as DialogueAssignment : null;
+}
+
+function readLine(check: Checker, entry: Record<string, unknown>, path: string): DialogueGraphLine | null {
+  const name = check.string(entry, 'name', path);
+  const text = check.string(entry, 'text', path, true);
+  const condition = readCondition(check, entry, path);
+  if (name === null || text === null || condition === null) return null;
+  return condition ? { name, text, if: condition } : { name, text };
+}
+
+// Node id a choice or jump goes to, it has to exist
+function readTarget(check: Checker, value: unknown, path: string, nodeIds: Set<string>): string | null {
+  if (typeof value !== 'string') {
+    check.report(path, `expected a node id, got ${describe(value)}`);
+    return null;
+  }
+  if (!nodeIds.has(value)) {
+    check.report(path, `unknown node "${value}"`);
+    return null;
+  }
+  return value;
+}
+
+function readNode(check: Checker, entry: Record<string, unknown>, path: string, nodeIds: Set<string>): DialogueNode {
+  const node: DialogueNode = {};
+  const lines = check.list(entry, 'lines', false, (line, linePath) => readLine(check, line, linePath), path)!;
+  if (lines.length > 0) node.lines = lines;
+
+  const choices = check.list(entry, 'choices', false, (choice, choicePath): DialogueChoice | null => {
+    const text = check.string(choice, 'text', choicePath);
+    const goto = choice.goto === undefined ? undefined : readTarget(check, choice.goto, `${choicePath}.goto`, nodeIds);
+    const set = readAssignment(check, choice, choicePath);
+    const condition = readCondition(check, choice, choicePath);
+    if (text === null || goto === null || set === null || condition === null) return null;
+    return {
+      text,
+      ...(goto !== undefined && { goto }),
+      ...(set && { set }),
+      ...(condition && { if: condition })
+    };
+  }, path)!;
+  if (choices.length > 0) node.choices = choices;
+
+  if (typeof entry.next === 'string') {
+    const target = readTarget(check, entry.next, `${path}.next`, nodeIds);
+    if (target !== null) node.next = target;
+  } else if (entry.next !== undefined) {
+    const jumps = check.list(entry, 'next', false, (jump, jumpPath): DialogueJump | null => {
+      const goto = readTarget(check, jump.goto, `${jumpPath}.goto`, nodeIds);
+      const condition = readCondition(check, jump, jumpPath);
+      if (goto === null || condition === null) return null;
+      return condition ? { goto, if: condition } : { goto };
+    }, path)!;
+    if (jumps.length > 0) node.next = jumps;
+  }
+
+  if (entry.end !== undefined) {
+    if (typeof entry.end === 'string') {
+      node.end = entry.end;
+    } else {
+      check.report(`${path}.end`, `expected an ending name, got ${describe(entry.end)}`);
+    }
+  }
+  return node;
+}
+
+// Node ids the start can reach through jumps and choices
+function reachableNodes(graph: DialogueGraph): Set<string> {
+  const reached = new Set<string>();
+  const queue = [graph.start];
+  while (queue.length > 0) {
+    const id = queue.pop()!;
+    if (reached.has(id) || !graph.nodes[id]) continue;
+    reached.add(id);
+    const node = graph.nodes[id];
+    if (typeof node.next === 'string') queue.push(node.next);
+    if (Array.isArray(node.next)) node.next.forEach(jump => queue.push(jump.goto));
+    node.choices?.forEach(choice => choice.goto !== undefined && queue.push(choice.goto));
+  }
+  return reached;
+}
+
+// Dialogue graph: { start, variables?, nodes: { id: { lines?, choices?, next?, end? } } }
+function readDialogueGraph(check: Checker, value: Record<string, unknown>): DialogueGraph | null {
+  const path = '$.dialogue';
+  if (!isRecord(value.nodes)) {
+    check.report(`${path}.nodes`, value.nodes === undefined ? 'missing' : `expected an object, got ${describe(value.nodes)}`);
+    return null;
+  }
+  const rawNodes = value.nodes;
+  const nodeIds = new Set(Object.keys(rawNodes).filter(id => isRecord(rawNodes[id])));
+
+  const start = check.string(value, 'start', path);
+  if (start === null) return null;
+  if (!nodeIds.has(start)) {
+    check.report(`${path}.start`, `unknown node "${start}"`);
+    return null;
+  }
+
+  const graph: DialogueGraph = { start, nodes: {} };
+  if (value.variables !== undefined) {
+    if (isRecord(value.variables)) {
+      const variables: DialogueVariables = {};
+      Object.entries(value.variables).forEach(([name, initial]) => {
+        if (isDialogueValue(initial)) {
+          variables[name] = initial;
+        } else {
+          check.report(`${path}.variables.${name}`, `expected a number, string or boolean, got ${describe(initial)}`);
+        }
+      });
+      graph.variables = variables;
+    } else {
+      check.report(`${path}.variables`, `expected an object, got ${describe(value.variables)}`);
+    }
+  }
+
+  Object.entries(rawNodes).forEach(([id, node]) => {
+    const nodePath = `${path}.nodes.${id}`;
+    if (!isRecord(node)) {
+      check.report(nodePath, `expected an object, got ${describe(node)}`);
+      return;
+    }
+    graph.nodes[id] = readNode(check, node, nodePath, nodeIds);
+  });
+
+  const reached = reachableNodes(graph);
+  Object.keys(graph.nodes).forEach(id => {
+    if (!reached.has(id)) check.report(`${path}.nodes.${id}`, 'never reached from the start', 'warning');
+  });
+  return graph;
+}
+
+// Check a payload against the schema. Broken entries are reported and left out so the
+// rest of the dialogue still plays; a payload without a dialogue list or graph is unusable.
+export function validateMagicWordsData(payload: unknown): MagicWordsValidation {
+  const check = createChecker();
+  if (!isRecord(payload)) {
+    check.report('$', `expected an object, got ${describe(payload)}`);
+    return { data: null, issues: check.issues };
+  }
+
+  // An object is a dialogue graph, a list the lines in order
+  const dialogue = isRecord(payload.dialogue)
+    ? readDialogueGraph(check, payload.dialogue)
+    : check.list(payload, 'dialogue', true, (entry, path) => {
+      const name = check.string(entry, 'name', path);
+      const text = check.string(entry, 'text', path, true);
+      return name !== null && text !== null ? { name, text } : null;
+    });
+
+  const emojies = check.list(payload, 'emojies', false, (entry, path) => {
+    const name = check.string(entry, 'name', path);
+    const url = check.url(entry, path);
+    return name !== null && url !== null ? { name, url } : null;
+  })!;
+
+  const avatars = check.list(payload, 'avatars', false, (entry, path) => {
+    const name = check.string(entry, 'name', path);
+    const url = check.url(entry, path);
+    if (name === null || url === null) return null;
+    const avatar: AvatarEntry = { name, url };
+    if (entry.position !== undefined) {
+      if (typeof entry.position === 'string' && AVATAR_POSITIONS.includes(entry.position)) {
+        avatar.position = entry.position as AvatarEntry['position'];
+      } else {
+        check.report(`${path}.position`, `expected "left" or "right", got ${describe(entry.position)}`, 'warning');
+      }
+    }
+    return avatar;
+  })!;
+
+  return { data: dialogue ? { dialogue, emojies, avatars } : null, issues: check.issues };
+}
+
+// Emoji names written as {name} in a line, the same pattern the rich text uses
+export function findEmojiNames(text: string): string[] {
+  return Array.from(text.matchAll(/\{([a-zA-Z0-9_+-]+)\}/g), match => match[1]);
+}
+
+// Lines with their JSON paths, from a list or from every node of a graph
+function dialogueLines(dialogue: MagicWordsData['dialogue']): { line: DialogueLine; path: string }[] {
+  if (Array.isArray(dialogue)) {
+    return dialogue.map((line, i) => ({ line, path: `$.dialogue[${i}]` }));
+  }
+  return Object.entries(dialogue.nodes).flatMap(([id, node]) =>
+    (node.lines ?? []).map((line, i) => ({ line, path: `$.dialogue.nodes.${id}.lines[${i}]` })));
+}
+
+// Warnings for speakers without an avatar and emojis that are not in the list
+export function checkMagicWordsReferences(data: MagicWordsData): SchemaIssue[] {
+  const emojiNames = new Set(data.emojies.map(emoji => emoji.name));
+  const avatarNames = new Set(data.avatars.map(avatar => avatar.name));
+  const issues: SchemaIssue[] = [];
+  const reportedSpeakers = new Set<string>();
+
+  function checkEmojis(text: string, path: string) {
+    findEmojiNames(text).forEach(name => {
+      if (!emojiNames.has(name)) {
+        issues.push({ path, message: `unknown emoji "{${name}}"`, severity: 'warning' });
+      }
+    });
+  }
+
+  dialogueLines(data.dialogue).forEach(({ line, path }) => {
+    if (!avatarNames.has(line.name) && !reportedSpeakers.has(line.name)) {
+      reportedSpeakers.add(line.name);
+      issues.push({ path: `${path}.name`, message: `no avatar for "${line.name}"`, severity: 'warning' });
+    }
+    checkEmojis(line.text, `${path}.text`);
+  });
+  if (!Array.isArray(data.dialogue)) {
+    Object.entries(data.dialogue.nodes).forEach(([id, node]) => {
+      node.choices?.forEach((choice, i) => checkEmojis(choice.text, `$.dialogue.nodes.${id}.choices[${i}].text`));
+    });
+  }
+  return issues;
+}
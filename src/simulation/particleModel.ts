@@ -0,0 +1,248 @@
+import { Clock, RandomSource } from './core';
+
+// Particle types
+export enum ParticleType {
+  BASE = 'base',      // Base of the fire
+  FLAME = 'flame',    // Main flame tongue
+  SPARK = 'spark'     // Small sparks
+}
+
+export interface FireParticle {
+  id: number;
+  type: ParticleType;
+  x: number;
+  y: number;
+  alpha: number;
+  scale: number;
+  rotation: number;
+  vx: number;
+  vy: number;
+  life: number;
+  maxLife: number;
+  baseY: number;
+  // Spiral parameters for sparks
+  spiralAngle?: number;
+  spiralRadius?: number;
+  spiralSpeed?: number;
+}
+
+export interface ParticleSystemOptions {
+  // Hard budget of particles alive at the same time
+  maxParticles: number;
+  baseSpawnInterval: number;
+  sparkSpawnInterval: number;
+  emitterX: number;
+  emitterY: number;
+  clock: Clock;
+  random: RandomSource;
+  onSpawn?: (particle: FireParticle) => void;
+  onDespawn?: (particle: FireParticle) => void;
+}
+
+const MAX_BASE_PARTICLES = 3;
+const MAX_SPARK_PARTICLES = 4;
+
+// Phoenix Flame simulation: one flame tongue, rising base puffs and spiralling sparks
+export function createParticleSystem(options: ParticleSystemOptions) {
+  const { maxParticles, baseSpawnInterval, sparkSpawnInterval, clock, random } = options;
+
+  const particles: FireParticle[] = [];
+  let nextId = 0;
+  let lastTime = clock.now();
+
+  // Particle type counters (optimized to avoid filter() calls every frame)
+  const counts: Record<ParticleType, number> = {
+    [ParticleType.BASE]: 0,
+    [ParticleType.FLAME]: 0,
+    [ParticleType.SPARK]: 0
+  };
+
+  let emitterX = options.emitterX;
+  let emitterY = options.emitterY;
+  let baseSpawnTimer = 0;
+  let sparkSpawnTimer = 0;
+
+  // Ensures at most maxParticles particles at the same time
+  function spawnParticle(type: ParticleType) {
+    if (particles.length >= maxParticles) return;
+
+    const particle: FireParticle = {
+      id: nextId++,
+      type,
+      x: emitterX,
+      y: emitterY,
+      alpha: 1,
+      scale: 1,
+      rotation: 0,
+      vx: 0,
+      vy: 0,
+      life: 1.0,
+      maxLife: 1.0,
+      baseY: emitterY
+    };
+
+    switch (type) {
+      case ParticleType.BASE:
+        particle.y = emitterY + 100;
+        particle.scale = (0.9 + random() * 0.2) * 2/3;
+        particle.alpha = 0.7 + random() * 0.3;
+        particle.vx = (random() - 0.5) * 0.2;
+        particle.vy = -0.3 - random() * 0.2;
+        particle.maxLife = 1.5 + random() * 0.5;
+        particle.life = particle.maxLife;
+        particle.baseY = particle.y;
+        break;
+
+      case ParticleType.FLAME:
+        particle.scale = 1.5 + random() * 0.5;
+        particle.alpha = 0.8;
+        particle.maxLife = Infinity;
+        particle.life = 1.0;
+        break;
+
+      case ParticleType.SPARK:
+        particle.scale = 0.2 + random() * 0.15;
+        particle.alpha = 0.8 + random() * 0.5;
+        particle.rotation = random() * Math.PI * 2;
+        particle.spiralAngle = random() * Math.PI * 2;
+        particle.spiralRadius = 0;
+        particle.spiralSpeed = 2 + random() * 2;
+        particle.vy = -2 - random() * 1;
+        particle.maxLife = 2.5 + random() * 0.5;
+        particle.life = particle.maxLife;
+        break;
+    }
+
+    particles.push(particle);
+    counts[type]++;
+    options.onSpawn?.(particle);
+  }
+
+  function updateParticle(p: FireParticle, deltaTime: number) {
+    p.life -= deltaTime;
+
+    // Update position
+    p.x += p.vx * deltaTime * 60;
+    p.y += p.vy * deltaTime * 60;
+
+    // Update properties based on type
+    switch (p.type) {
+      case ParticleType.BASE:
+        p.alpha = (p.life / p.maxLife) * 0.8;
+        p.scale += 0.001 * deltaTime * 60;
+        // Slow down as they rise
+        p.vy *= 0.98;
+        break;
+
+      case ParticleType.FLAME: {
+        p.life += deltaTime;
+        p.alpha = 0.6 + 0.4 * (Math.sin(p.life * 3) * 0.5 + 0.5);
+        const baseScale = 1.5;
+        p.scale = baseScale + Math.sin(p.life * 2) * 0.2;
+        break;
+      }
+
+      case ParticleType.SPARK:
+        if (p.spiralAngle !== undefined && p.spiralRadius !== undefined && p.spiralSpeed !== undefined) {
+          const elapsed = 1 - (p.life / p.maxLife);
+
+          p.spiralAngle += p.spiralSpeed * deltaTime;
+          p.spiralRadius = 5 + elapsed * 60;
+
+          const spiralX = Math.cos(p.spiralAngle) * p.spiralRadius;
+          const spiralY = Math.sin(p.spiralAngle) * p.spiralRadius * 0.4;
+          const upwardOffset = -elapsed * 300;
+
+          p.x = emitterX + spiralX;
+          p.y = emitterY + spiralY + upwardOffset;
+        }
+
+        p.alpha = (p.life / p.maxLife) * 0.7;
+        p.scale *= 0.995;
+        break;
+    }
+  }
+
+  return {
+    particles,
+
+    getCount(type: ParticleType): number {
+      return counts[type];
+    },
+
+    // Spawn and update particles for the time passed since the last update
+    update() {
+      const now = clock.now();
+      const deltaTime = (now - lastTime) / 1000;
+      lastTime = now;
+
+      // Ensure single flame tongue exists
+      if (counts[ParticleType.FLAME] === 0) {
+        spawnParticle(ParticleType.FLAME);
+      }
+
+      // Ensure at least one base particle exists
+      if (counts[ParticleType.BASE] === 0) {
+        spawnParticle(ParticleType.BASE);
+      }
+
+      baseSpawnTimer += deltaTime;
+      if (baseSpawnTimer >= baseSpawnInterval) {
+        baseSpawnTimer = 0;
+        if (counts[ParticleType.BASE] < MAX_BASE_PARTICLES) {
+          spawnParticle(ParticleType.BASE);
+        }
+      }
+
+      sparkSpawnTimer += deltaTime;
+      if (sparkSpawnTimer >= sparkSpawnInterval) {
+        sparkSpawnTimer = 0;
+        if (counts[ParticleType.SPARK] < MAX_SPARK_PARTICLES) {
+          spawnParticle(ParticleType.SPARK);
+        }
+      }
+
+      for (let i = particles.length - 1; i >= 0; i--) {
+        const p = particles[i];
+        updateParticle(p, deltaTime);
+
+        // Remove dead particles (except flame)
+        if (p.life <= 0 && p.type !== ParticleType.FLAME) {
+          particles.splice(i, 1);
+          counts[p.type]--;
+          options.onDespawn?.(p);
+        }
+      }
+    },
+
+    // Move the emitter, particles keep their position relative to it
+    setEmitter(x: number, y: number) {
+      const offsetX = x - emitterX;
+      const offsetY = y - emitterY;
+      emitterX = x;
+      emitterY = y;
+
+      particles.forEach(p => {
+        if (p.type === ParticleType.FLAME) {
+          // Flame tongue should stay at center
+          p.x = emitterX;
+          p.y = emitterY;
+        } else {
+          p.x += offsetX;
+          p.y += offsetY;
+        }
+      });
+    },
+
+    // Drop every particle, e.g. when the scene is destroyed
+    clear() {
+      while (particles.length > 0) {
+        const p = particles.pop()!;
+        counts[p.type]--;
+        options.onDespawn?.(p);
+      }
+    }
+  };
+}
+
+export type ParticleSystem = ReturnType<typeof createParticleSystem>;
@@ -0,0 +1,43 @@
+import { RandomSource } from './core';
+
+// Fisher-Yates shuffle, returns a new array
+export function shuffle<T>(items: readonly T[], random: RandomSource): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+export interface RiffleResult<T> {
+  items: T[];
+  // Items before this index formed the first half
+  cut: number;
+}
+
+// One riffle shuffle (Gilbert-Shannon-Reeds): cut near the middle, then drop cards
+// from either half with a chance proportional to the cards left in it
+export function riffleShuffle<T>(items: readonly T[], random: RandomSource): RiffleResult<T> {
+  // Binomial cut, most cuts land close to the middle
+  let cut = 0;
+  for (let i = 0; i < items.length; i++) {
+    if (random() < 0.5) cut++;
+  }
+
+  const left = items.slice(0, cut);
+  const right = items.slice(cut);
+  const result: T[] = [];
+  let l = 0;
+  let r = 0;
+  while (l < left.length || r < right.length) {
+    const leftRemaining = left.length - l;
+    const rightRemaining = right.length - r;
+    if (random() * (leftRemaining + rightRemaining) < leftRemaining) {
+      result.push(left[l++]);
+    } else {
+      result.push(right[r++]);
+    }
+  }
+  return { items: result, cut };
+}
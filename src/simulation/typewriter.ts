@@ -0,0 +1,120 @@
+// Timing of a typewriter reveal: text appears one character at a time, emojis pop in as a
+// whole, and the writer stops briefly after punctuation. The view asks it how much of each
+// segment to show.
+
+export type TypewriterSegment = { type: 'text'; text: string } | { type: 'emoji' };
+
+export interface TypewriterOptions {
+  // Characters per second, 0 shows everything at once
+  charsPerSecond?: number;
+  // Extra wait after a character, only where it ends a word so "3.5" and "e.g." keep going
+  pauses?: Record<string, number>;
+  // Time an emoji takes to pop in
+  emojiPopMs?: number;
+}
+
+export const DEFAULT_TYPEWRITER_PAUSES: Record<string, number> = {
+  '.': 300,
+  '!': 300,
+  '?': 300,
+  '…': 300,
+  ',': 120,
+  ';': 150,
+  ':': 150
+};
+
+const DEFAULTS = {
+  charsPerSecond: 40,
+  emojiPopMs: 200
+};
+
+export function createTypewriter(segments: readonly TypewriterSegment[], options: TypewriterOptions = {}) {
+  const { charsPerSecond, emojiPopMs } = { ...DEFAULTS, ...options };
+  const pauses = options.pauses ?? DEFAULT_TYPEWRITER_PAUSES;
+  const stepMs = charsPerSecond > 0 ? 1000 / charsPerSecond : 0;
+
+  // Time each character or emoji appears, per segment
+  const starts: number[][] = [];
+  let time = 0;
+  let endTime = 0;
+  segments.forEach(segment => {
+    if (segment.type === 'emoji') {
+      starts.push([time]);
+      endTime = Math.max(endTime, time + emojiPopMs);
+      time += stepMs;
+      return;
+    }
+    const times: number[] = [];
+    Array.from(segment.text).forEach((char, i, chars) => {
+      times.push(time);
+      endTime = Math.max(endTime, time);
+      time += stepMs;
+      const endsWord = i === chars.length - 1 || /\s/.test(chars[i + 1]);
+      if (stepMs > 0 && endsWord && char in pauses) time += pauses[char];
+    });
+    starts.push(times);
+  });
+
+  let elapsed = 0;
+  let finished = false;
+  const handlers: (() => void)[] = [];
+
+  function finish() {
+    if (finished) return;
+    finished = true;
+    handlers.splice(0).forEach(handler => handler());
+  }
+
+  const writer = {
+    get done() {
+      return finished;
+    },
+
+    // Advance the reveal, returns true while there is more to show
+    update(deltaMs: number): boolean {
+      if (finished) return false;
+      elapsed += deltaMs;
+      if (elapsed >= endTime) finish();
+      return !finished;
+    },
+
+    // Show the rest at once, e.g. when the player clicks mid-line
+    complete() {
+      elapsed = Math.max(elapsed, endTime);
+      finish();
+    },
+
+    // Characters of a text segment shown so far
+    visibleChars(index: number): number {
+      const times = starts[index] ?? [];
+      if (finished) return times.length;
+      let count = 0;
+      while (count < times.length && times[count] <= elapsed) count++;
+      return count;
+    },
+
+    // 0 before an emoji appears, 1 once it has popped in
+    emojiProgress(index: number): number {
+      const start = starts[index]?.[0];
+      if (start === undefined) return 0;
+      if (finished) return 1;
+      if (emojiPopMs <= 0) return elapsed >= start ? 1 : 0;
+      return Math.min(1, Math.max(0, (elapsed - start) / emojiPopMs));
+    },
+
+    // Called once the whole line is shown, right away when it already is
+    onComplete(handler: () => void) {
+      if (finished) {
+        handler();
+      } else {
+        handlers.push(handler);
+      }
+    }
+  };
+
+  // Nothing to wait for without a typing speed or with an empty line
+  if (stepMs === 0 || starts.every(times => times.length === 0)) finish();
+  return writer;
+}
+
+export type Typewriter = ReturnType<typeof createTypewriter>;
@@ -0,0 +1,188 @@
+import { faceForCard, rankValue } from '../cards/playingCards';
+import { RandomSource } from './core';
+import { shuffle } from './shuffle';
+
+export type WarSide = 'player' | 'opponent';
+
+// resolve: both cards are on the table and the trick is ready to be decided
+export type WarTurn = WarSide | 'resolve';
+
+export type WarStatus = 'playing' | 'won' | 'lost' | 'draw';
+
+// Cards put face down before the deciding card when a trick is tied
+export const WAR_FACE_DOWN = 3;
+
+// Cards one side put on the table in a single turn
+export interface WarPlay {
+  side: WarSide;
+  faceDown: number[];
+  faceUp: number;
+}
+
+export interface WarTrick {
+  // null while the trick is tied and a war has started
+  winner: WarSide | null;
+  // Table cards in the order they go to the bottom of the winner's pile
+  collected: number[];
+}
+
+export interface WarGameOptions {
+  random: RandomSource;
+  // Card ids to deal, a standard 52 card deck by default
+  cardIds?: number[];
+  // Fixed piles from bottom to top instead of a shuffled deal, used by tests
+  deal?: Record<WarSide, number[]>;
+  // Ends a game that would otherwise go on forever, the side with more cards wins
+  maxTricks?: number;
+}
+
+// Ace high, unlike rankValue
+export function warCardValue(cardId: number): number {
+  const { rank } = faceForCard(cardId);
+  return rank === 'A' ? 14 : rankValue(rank);
+}
+
+const otherSide = (side: WarSide): WarSide => (side === 'player' ? 'opponent' : 'player');
+
+// War for two: both sides turn over their top card, the higher card takes the trick.
+// A tie starts a war where both sides add face-down cards before the next face-up card.
+export function createWarGame(options: WarGameOptions) {
+  const { random } = options;
+  const maxTricks = options.maxTricks ?? 1000;
+  const cardIds = options.cardIds ?? Array.from({ length: 52 }, (_, i) => i);
+
+  // Card ids from bottom to top
+  const piles: Record<WarSide, number[]> = { player: [], opponent: [] };
+  // Cards on the table in the order they were played
+  const table: Record<WarSide, number[]> = { player: [], opponent: [] };
+  const tricksWon: Record<WarSide, number> = { player: 0, opponent: 0 };
+  let turn: WarTurn = 'player';
+  let status: WarStatus = 'playing';
+  let tricks = 0;
+  // Number of ties in the current trick
+  let wars = 0;
+
+  function deal() {
+    if (options.deal) {
+      piles.player = [...options.deal.player];
+      piles.opponent = [...options.deal.opponent];
+      return;
+    }
+    const deck = shuffle(cardIds, random);
+    piles.player = deck.filter((_, i) => i % 2 === 0);
+    piles.opponent = deck.filter((_, i) => i % 2 === 1);
+  }
+
+  function restart() {
+    deal();
+    table.player = [];
+    table.opponent = [];
+    tricksWon.player = 0;
+    tricksWon.opponent = 0;
+    turn = 'player';
+    status = 'playing';
+    tricks = 0;
+    wars = 0;
+  }
+
+  function lastFaceUp(side: WarSide): number {
+    return table[side][table[side].length - 1];
+  }
+
+  // Game over when a side has to play without cards, or the trick limit is reached
+  function finish(loser: WarSide | null) {
+    if (loser === null) {
+      const difference = piles.player.length - piles.opponent.length;
+      status = difference > 0 ? 'won' : difference < 0 ? 'lost' : 'draw';
+    } else {
+      status = loser === 'player' ? 'lost' : 'won';
+    }
+  }
+
+  restart();
+
+  return {
+    piles: piles as Readonly<Record<WarSide, readonly number[]>>,
+    table: table as Readonly<Record<WarSide, readonly number[]>>,
+    tricksWon: tricksWon as Readonly<Record<WarSide, number>>,
+
+    get turn(): WarTurn {
+      return turn;
+    },
+
+    get status(): WarStatus {
+      return status;
+    },
+
+    get tricks() {
+      return tricks;
+    },
+
+    // Ties so far in the current trick
+    get wars() {
+      return wars;
+    },
+
+    // Play the top card of a side, during a war face-down cards go first.
+    // A side short of cards for a war plays all it has, the last one face up.
+    // Returns null when it is not that side's turn or the game is over.
+    play(side: WarSide): WarPlay | null {
+      if (status !== 'playing' || turn !== side) return null;
+      const pile = piles[side];
+      if (pile.length === 0) {
+        finish(side);
+        return null;
+      }
+
+      const faceDownCount = wars > 0 ? Math.min(WAR_FACE_DOWN, pile.length - 1) : 0;
+      const faceDown: number[] = [];
+      for (let i = 0; i < faceDownCount; i++) {
+        faceDown.push(pile.pop()!);
+      }
+      const faceUp = pile.pop()!;
+      table[side].push(...faceDown, faceUp);
+      turn = side === 'player' ? 'opponent' : 'resolve';
+      return { side, faceDown, faceUp };
+    },
+
+    // Decide the trick once both sides have played. A tie starts a war and hands the turn back.
+    resolve(): WarTrick | null {
+      if (status !== 'playing' || turn !== 'resolve') return null;
+      const difference = warCardValue(lastFaceUp('player')) - warCardValue(lastFaceUp('opponent'));
+
+      if (difference === 0) {
+        wars++;
+        turn = 'player';
+        // A side without cards cannot fight the war
+        const playerOut = piles.player.length === 0;
+        const opponentOut = piles.opponent.length === 0;
+        if (playerOut || opponentOut) {
+          finish(playerOut && opponentOut ? null : playerOut ? 'player' : 'opponent');
+        }
+        return { winner: null, collected: [] };
+      }
+
+      const winner: WarSide = difference > 0 ? 'player' : 'opponent';
+      // Shuffled so two equal players cannot loop forever
+      const collected = shuffle([...table.player, ...table.opponent], random);
+      piles[winner].unshift(...collected);
+      table.player = [];
+      table.opponent = [];
+      tricksWon[winner]++;
+      tricks++;
+      wars = 0;
+      turn = 'player';
+
+      if (piles[otherSide(winner)].length === 0) {
+        finish(otherSide(winner));
+      } else if (tricks >= maxTricks) {
+        finish(null);
+      }
+      return { winner, collected };
+    },
+
+    restart
+  };
+}
+
+export type WarGame = ReturnType<typeof createWarGame>;
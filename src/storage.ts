@@ -0,0 +1,12 @@
+// Key-value storage for saved state, localStorage in the browser
+export type KeyValueStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+// localStorage when there is one, null under Node or when storage is disabled
+export function defaultStorage(): KeyValueStorage | null {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage : null;
+  } catch {
+    // Access throws when storage is disabled
+    return null;
+  }
+}
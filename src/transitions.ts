@@ -0,0 +1,135 @@
+import * as PIXI from 'pixi.js';
+
+export type TransitionName = 'cut' | 'fade' | 'crossfade' | 'slide' | 'wipe';
+
+// A running transition between two scene containers
+export interface SceneTransition {
+  durationMs: number;
+  // Progress goes from 0 to 1
+  update(progress: number): void;
+  // Restore everything the transition changed on the containers
+  finish(): void;
+}
+
+export type TransitionFactory = (
+  from: PIXI.Container | null,
+  to: PIXI.Container,
+  app: PIXI.Application
+) => SceneTransition;
+
+// Smooth start and end
+function easeInOut(t: number): number {
+  return t * t * (3 - 2 * t);
+}
+
+// Hard cut, finishes on the first frame
+const cut: TransitionFactory = () => ({
+  durationMs: 0,
+  update() {},
+  finish() {}
+});
+
+// Fade the old scene to black, then fade the new scene in
+const fade: TransitionFactory = (from, to, app) => {
+  const overlay = new PIXI.Graphics();
+  overlay.rect(0, 0, app.renderer.width, app.renderer.height).fill(0x000000);
+  overlay.alpha = from ? 0 : 1;
+  app.stage.addChild(overlay);
+  to.visible = !from;
+
+  return {
+    durationMs: 500,
+    update(progress) {
+      if (progress < 0.5) {
+        overlay.alpha = from ? easeInOut(progress * 2) : 1;
+      } else {
+        if (from) from.visible = false;
+        to.visible = true;
+        overlay.alpha = 1 - easeInOut((progress - 0.5) * 2);
+      }
+    },
+    finish() {
+      to.visible = true;
+      overlay.destroy();
+    }
+  };
+};
+
+// Blend the new scene in on top of the old one
+const crossfade: TransitionFactory = (_from, to) => {
+  to.alpha = 0;
+
+  return {
+    durationMs: 400,
+    update(progress) {
+      to.alpha = easeInOut(progress);
+    },
+    finish() {
+      to.alpha = 1;
+    }
+  };
+};
+
+// Push the old scene out to the left while the new one comes in from the right
+const slide: TransitionFactory = (from, to, app) => {
+  // Scenes live in the scaled layout root, so convert the screen width
+  const width = app.renderer.width / (to.parent?.scale.x || 1);
+  to.x = width;
+
+  return {
+    durationMs: 450,
+    update(progress) {
+      const offset = easeInOut(progress) * width;
+      if (from) from.x = -offset;
+      to.x = width - offset;
+    },
+    finish() {
+      if (from) from.x = 0;
+      to.x = 0;
+    }
+  };
+};
+
+// Reveal the new scene through a growing circle
+const wipe: TransitionFactory = (_from, to, app) => {
+  const centerX = app.renderer.width / 2;
+  const centerY = app.renderer.height / 2;
+  const maxRadius = Math.hypot(centerX, centerY);
+  const mask = new PIXI.Graphics();
+  app.stage.addChild(mask);
+  to.mask = mask;
+
+  const drawMask = (radius: number) => {
+    mask.clear();
+    mask.circle(centerX, centerY, Math.max(radius, 0.1)).fill(0xffffff);
+  };
+  drawMask(0);
+
+  return {
+    durationMs: 600,
+    update(progress) {
+      drawMask(easeInOut(progress) * maxRadius);
+    },
+    finish() {
+      to.mask = null;
+      mask.destroy();
+    }
+  };
+};
+
+const transitions: Record<TransitionName, TransitionFactory> = {
+  cut,
+  fade,
+  crossfade,
+  slide,
+  wipe
+};
+
+export function createTransition(
+  name: TransitionName,
+  from: PIXI.Container | null,
+  to: PIXI.Container,
+  app: PIXI.Application
+): SceneTransition {
+  return transitions[name](from, to, app);
+}
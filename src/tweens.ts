@@ -0,0 +1,402 @@
+// Tweens and timelines.
+// An animation is a pure function of its local time: render(time) shows the state at that
+// time, which lets sequences, yoyo and repeat play children forwards and backwards.
+
+export type Easing = (t: number) => number;
+
+const BACK_OVERSHOOT = 1.70158;
+
+function bounceOut(t: number): number {
+  const n = 7.5625;
+  const d = 2.75;
+  if (t < 1 / d) return n * t * t;
+  if (t < 2 / d) return n * (t -= 1.5 / d) * t + 0.75;
+  if (t < 2.5 / d) return n * (t -= 2.25 / d) * t + 0.9375;
+  return n * (t -= 2.625 / d) * t + 0.984375;
+}
+
+function elasticOut(t: number): number {
+  if (t === 0 || t === 1) return t;
+  return Math.pow(2, -10 * t) * Math.sin((t * 10 - 0.75) * (2 * Math.PI / 3)) + 1;
+}
+
+function backIn(t: number): number {
+  return (BACK_OVERSHOOT + 1) * t * t * t - BACK_OVERSHOOT * t * t;
+}
+
+// Mirror an ease-in curve into its ease-out and ease-in-out forms
+const out = (ease: Easing): Easing => t => 1 - ease(1 - t);
+const inOut = (ease: Easing): Easing => t => (t < 0.5 ? ease(t * 2) / 2 : 1 - ease((1 - t) * 2) / 2);
+
+const quadIn: Easing = t => t * t;
+const cubicIn: Easing = t => t * t * t;
+const sineIn: Easing = t => 1 - Math.cos(t * Math.PI / 2);
+const elasticIn = out(elasticOut);
+const bounceIn = out(bounceOut);
+
+export const easings = {
+  linear: (t: number) => t,
+  quadIn,
+  quadOut: out(quadIn),
+  quadInOut: inOut(quadIn),
+  cubicIn,
+  cubicOut: out(cubicIn),
+  cubicInOut: inOut(cubicIn),
+  sineIn,
+  sineOut: out(sineIn),
+  sineInOut: inOut(sineIn),
+  backIn,
+  backOut: out(backIn),
+  backInOut: inOut(backIn),
+  elasticIn,
+  elasticOut,
+  elasticInOut: inOut(elasticIn),
+  bounceIn,
+  bounceOut,
+  bounceInOut: inOut(bounceIn)
+};
+
+export type EasingName = keyof typeof easings;
+
+function resolveEasing(ease: EasingName | Easing | undefined): Easing {
+  if (typeof ease === 'function') return ease;
+  return easings[ease ?? 'linear'];
+}
+
+export interface Animation {
+  // Length in ms including delays and repeats, Infinity when it repeats forever
+  readonly duration: number;
+  // Show the state at a local time between 0 and duration
+  render(time: number): void;
+}
+
+export interface TimingOptions {
+  // Wait before the first run
+  delay?: number;
+  // Extra runs after the first one, -1 repeats forever
+  repeat?: number;
+  // Every other run plays backwards
+  yoyo?: boolean;
+}
+
+export interface TweenOptions extends TimingOptions {
+  duration: number;
+  ease?: EasingName | Easing;
+  // Called after every render with the eased progress of the current run
+  onUpdate?: (progress: number) => void;
+}
+
+export interface Point2D {
+  x: number;
+  y: number;
+}
+
+// Play an animation several times, optionally backwards every other run
+export function loop(animation: Animation, repeat: number, yoyo = false): Animation {
+  const cycle = animation.duration;
+  const runs = repeat < 0 ? Infinity : repeat + 1;
+  const duration = cycle * runs;
+
+  return {
+    duration,
+    render(time: number) {
+      if (cycle <= 0) {
+        animation.render(0);
+        return;
+      }
+      let run: number;
+      let local: number;
+      if (time >= duration) {
+        run = runs - 1;
+        local = cycle;
+      } else {
+        run = Math.floor(time / cycle);
+        local = time - run * cycle;
+      }
+      animation.render(yoyo && run % 2 === 1 ? cycle - local : local);
+    }
+  };
+}
+
+// Wait before an animation starts, nothing is touched during the wait
+export function delayed(animation: Animation, delay: number): Animation {
+  let started = false;
+  return {
+    duration: delay + animation.duration,
+    render(time: number) {
+      if (time < delay && !started) return;
+      started = true;
+      animation.render(Math.max(0, time - delay));
+    }
+  };
+}
+
+// Apply the shared timing options around a single run
+function withTiming(animation: Animation, options: TimingOptions): Animation {
+  let result = animation;
+  if (options.repeat) {
+    result = loop(result, options.repeat, options.yoyo);
+  } else if (options.yoyo) {
+    result = loop(result, 1, true);
+  }
+  if (options.delay) {
+    result = delayed(result, options.delay);
+  }
+  return result;
+}
+
+// Eased progress from 0 to 1 over the duration, the base of every tween
+function progressAnimation(options: TweenOptions, apply: (progress: number) => void): Animation {
+  const ease = resolveEasing(options.ease);
+  const duration = Math.max(0, options.duration);
+  return withTiming({
+    duration,
+    render(time: number) {
+      const progress = ease(duration > 0 ? Math.min(1, Math.max(0, time / duration)) : 1);
+      apply(progress);
+      options.onUpdate?.(progress);
+    }
+  }, options);
+}
+
+// Object holding the last key of a dotted path, e.g. target.scale for 'scale.x'
+function pathOwner(target: object, path: string[]): Record<string, unknown> {
+  return path.slice(0, -1).reduce<Record<string, unknown>>((current, key) => {
+    const next = current[key];
+    if (typeof next !== 'object' || next === null) {
+      throw new Error(`Cannot tween "${path.join('.')}": "${key}" is not an object`);
+    }
+    return next as Record<string, unknown>;
+  }, target as Record<string, unknown>);
+}
+
+function getPath(target: object, path: string[]): number {
+  const value = pathOwner(target, path)[path[path.length - 1]];
+  if (typeof value !== 'number') {
+    throw new Error(`Cannot tween "${path.join('.')}": expected a number, got ${typeof value}`);
+  }
+  return value;
+}
+
+function setPath(target: object, path: string[], value: number) {
+  pathOwner(target, path)[path[path.length - 1]] = value;
+}
+
+// Destroyed display objects are left alone
+function isDestroyed(target: object): boolean {
+  return 'destroyed' in target && target.destroyed === true;
+}
+
+// Tween numeric properties to end values, dotted keys reach nested values like 'scale.x'.
+// Start values are read when the tween first renders, unless given in from.
+export function tween(
+  target: object,
+  to: Record<string, number>,
+  options: TweenOptions & { from?: Record<string, number> }
+): Animation {
+  const keys = Object.keys(to).map(key => ({ key, path: key.split('.') }));
+  let from: Record<string, number> | null = null;
+
+  return progressAnimation(options, progress => {
+    if (isDestroyed(target)) return;
+    if (!from) {
+      from = {};
+      keys.forEach(({ key, path }) => {
+        from![key] = options.from?.[key] ?? getPath(target, path);
+      });
+    }
+    keys.forEach(({ key, path }) => {
+      setPath(target, path, from![key] + (to[key] - from![key]) * progress);
+    });
+  });
+}
+
+// Point on a bezier curve of any degree (de Casteljau)
+export function pointOnBezier(points: readonly Point2D[], t: number): Point2D {
+  let current = points.map(({ x, y }) => ({ x, y }));
+  while (current.length > 1) {
+    const next: Point2D[] = [];
+    for (let i = 0; i < current.length - 1; i++) {
+      next.push({
+        x: current[i].x + (current[i + 1].x - current[i].x) * t,
+        y: current[i].y + (current[i + 1].y - current[i].y) * t
+      });
+    }
+    current = next;
+  }
+  return current[0];
+}
+
+// Point along a polyline at a share of its length, so motion speed stays even
+export function pointOnPath(points: readonly Point2D[], t: number): Point2D {
+  if (points.length === 1) return { x: points[0].x, y: points[0].y };
+  const lengths = points.slice(1).map((point, i) => Math.hypot(point.x - points[i].x, point.y - points[i].y));
+  const total = lengths.reduce((sum, length) => sum + length, 0);
+  let distance = Math.min(1, Math.max(0, t)) * total;
+  for (let i = 0; i < lengths.length; i++) {
+    if (distance <= lengths[i] || i === lengths.length - 1) {
+      const share = lengths[i] > 0 ? Math.min(1, distance / lengths[i]) : 1;
+      return {
+        x: points[i].x + (points[i + 1].x - points[i].x) * share,
+        y: points[i].y + (points[i + 1].y - points[i].y) * share
+      };
+    }
+    distance -= lengths[i];
+  }
+  return { x: points[points.length - 1].x, y: points[points.length - 1].y };
+}
+
+// Move x and y along a curve, given as a function of progress
+export function motion(target: Point2D, pointAt: (progress: number) => Point2D, options: TweenOptions): Animation {
+  return progressAnimation(options, progress => {
+    if (isDestroyed(target)) return;
+    const point = pointAt(progress);
+    target.x = point.x;
+    target.y = point.y;
+  });
+}
+
+// Move along a bezier curve, the first and last points are the start and end
+export function bezier(target: Point2D, points: readonly Point2D[], options: TweenOptions): Animation {
+  return motion(target, progress => pointOnBezier(points, progress), options);
+}
+
+// Move through a list of points at even speed
+export function path(target: Point2D, points: readonly Point2D[], options: TweenOptions): Animation {
+  return motion(target, progress => pointOnPath(points, progress), options);
+}
+
+// Nothing happens for a while, e.g. a pause inside a sequence
+export function wait(duration: number): Animation {
+  return { duration, render() {} };
+}
+
+// Run a function once when the timeline passes this point
+export function call(fn: () => void): Animation {
+  let called = false;
+  return {
+    duration: 0,
+    render() {
+      if (called) return;
+      called = true;
+      fn();
+    }
+  };
+}
+
+// Children one after another
+export function sequence(children: Animation[], options: TimingOptions = {}): Animation {
+  const offsets: number[] = [];
+  let duration = 0;
+  children.forEach(child => {
+    offsets.push(duration);
+    duration += child.duration;
+  });
+  const rendered = children.map(() => false);
+
+  return withTiming({
+    duration,
+    render(time: number) {
+      // Children not reached yet go back to their start, latest first, so playing
+      // backwards leaves shared properties at the value of the earliest child
+      for (let i = children.length - 1; i >= 0; i--) {
+        if (time < offsets[i] && rendered[i]) {
+          children[i].render(0);
+        }
+      }
+      children.forEach((child, i) => {
+        if (time < offsets[i]) return;
+        rendered[i] = true;
+        child.render(Math.min(child.duration, time - offsets[i]));
+      });
+    }
+  }, options);
+}
+
+// Children at the same time, the group lasts as long as the longest child
+export function parallel(children: Animation[], options: TimingOptions = {}): Animation {
+  const duration = children.reduce((longest, child) => Math.max(longest, child.duration), 0);
+  return withTiming({
+    duration,
+    render(time: number) {
+      children.forEach(child => child.render(Math.min(child.duration, time)));
+    }
+  }, options);
+}
+
+export interface TweenHandle {
+  // true once the animation has played to the end, false when it was killed first
+  readonly finished: Promise<boolean>;
+  readonly isActive: boolean;
+  kill(): void;
+}
+
+interface PlayingAnimation {
+  animation: Animation;
+  elapsed: number;
+  owner: object | null;
+  resolve: (completed: boolean) => void;
+}
+
+// Plays animations on scene time, update is called by a single ticker
+export function createTweenManager() {
+  const playing: PlayingAnimation[] = [];
+
+  function stop(entry: PlayingAnimation, completed: boolean) {
+    const index = playing.indexOf(entry);
+    if (index === -1) return;
+    playing.splice(index, 1);
+    entry.resolve(completed);
+  }
+
+  // Start an animation, owner lets killTweensOf stop it later
+  function play(animation: Animation, owner: object | null = null): TweenHandle {
+    let resolve!: (completed: boolean) => void;
+    const finished = new Promise<boolean>(r => (resolve = r));
+    const entry: PlayingAnimation = { animation, elapsed: 0, owner, resolve };
+    playing.push(entry);
+    return {
+      finished,
+      get isActive() {
+        return playing.includes(entry);
+      },
+      kill: () => stop(entry, false)
+    };
+  }
+
+  return {
+    get count() {
+      return playing.length;
+    },
+
+    play,
+
+    // Shorthand for play(tween(...)) owned by the target
+    to(target: object, to: Record<string, number>, options: TweenOptions & { from?: Record<string, number> }): TweenHandle {
+      return play(tween(target, to, options), target);
+    },
+
+    update(deltaMS: number) {
+      // Animations started or killed from callbacks take effect next frame
+      [...playing].forEach(entry => {
+        if (!playing.includes(entry)) return;
+        entry.elapsed += deltaMS;
+        const { duration } = entry.animation;
+        entry.animation.render(Math.min(entry.elapsed, duration));
+        if (entry.elapsed >= duration) {
+          stop(entry, true);
+        }
+      });
+    },
+
+    killTweensOf(owner: object) {
+      playing.filter(entry => entry.owner === owner).forEach(entry => stop(entry, false));
+    },
+
+    killAll() {
+      [...playing].forEach(entry => stop(entry, false));
+    }
+  };
+}
+
+export type TweenManager = ReturnType<typeof createTweenManager>;
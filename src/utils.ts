@@ -1,66 +1,42 @@
 import * as PIXI from 'pixi.js';
 import { Assets } from 'pixi.js';
+import { makeFocusable } from './input';
+import { Anchor, Layout } from './layout';
+import { profileTicker } from './perfStats';
+import { TypewriterOptions, TypewriterSegment, createTypewriter } from './simulation/typewriter';
+import { TweenManager, createTweenManager, easings } from './tweens';
 
-// Scene FPS counter
-export function addFpsCounter(
-  scene: PIXI.Container,
+// Run a ticker function until its scene stops, timed for the performance HUD
+export function addSceneTicker(
   app: PIXI.Application,
   sceneTickers: { [key: string]: (() => void)[] },
-  sceneId?: string
+  sceneId: string,
+  name: string,
+  ticker: () => void
 ) {
-  const fpsText = new PIXI.Text({ 
-    text: 'FPS: --', 
-    style: { 
-      fontSize: 14, 
-      fill: '#00ff00',
-      fontFamily: 'monospace'
-    } 
-  });
-  fpsText.x = 10;
-  fpsText.y = 10;
-  scene.addChild(fpsText);
-
-  let lastTime = performance.now();
-  let frames = 0;
-  const fpsTickerId = sceneId ? `fps-${sceneId}` : 'fps';
-
-  // FPS update ticker
-  const fpsTicker = () => {
-    if (fpsText.destroyed) return;
-    frames++;
-    const now = performance.now();
-    if (now - lastTime >= 500) {
-      const fps = Math.round((frames * 1000) / (now - lastTime));
-      fpsText.text = `FPS: ${fps}`;
-      lastTime = now;
-      frames = 0;
-    }
-  };
-
-  // Register ticker
-  app.ticker.add(fpsTicker);
-  if (!sceneTickers[fpsTickerId]) sceneTickers[fpsTickerId] = [];
-  sceneTickers[fpsTickerId].push(fpsTicker);
-
-  // Update position on resize
-  const resizeHandler = () => {
-    if (fpsText && !fpsText.destroyed) {
-      // Keep FPS counter in top-left corner
-      fpsText.x = 10;
-      fpsText.y = 10;
-    }
-  };
-  window.addEventListener('resize', resizeHandler);
+  const profiled = profileTicker(`${sceneId}/${name}`, ticker);
+  app.ticker.add(profiled);
+  if (!sceneTickers[sceneId]) sceneTickers[sceneId] = [];
+  sceneTickers[sceneId].push(profiled);
+}
 
-  (fpsText as any).cleanup = () => {
-    window.removeEventListener('resize', resizeHandler);
-  };
+// Tween manager on a single scene ticker, its animations are killed when the scene is destroyed
+export function addSceneTweens(
+  app: PIXI.Application,
+  sceneTickers: { [key: string]: (() => void)[] },
+  sceneId: string,
+  scene: PIXI.Container
+): TweenManager {
+  const tweens = createTweenManager();
+  addSceneTicker(app, sceneTickers, sceneId, 'tweens', () => tweens.update(app.ticker.deltaMS));
+  scene.once('destroyed', () => tweens.killAll());
+  return tweens;
 }
 
 // Back to menu button
 export function addBackToMenuButton(
   scene: PIXI.Container,
-  app: PIXI.Application,
+  layout: Layout,
   switchToScene: (id: string) => void
 ) {
   const button = new PIXI.Container();
@@ -71,27 +47,100 @@ export function addBackToMenuButton(
   const label = new PIXI.Text({ text: 'Menu', style: { fontSize: 16, fill: '#ffffff' } });
   label.anchor.set(0.5);
   button.addChild(label);
-  button.x = app.renderer.width - 60;
-  button.y = 20;
   button.interactive = true;
   button.cursor = 'pointer';
-  button.on('pointerdown', () => {
-    switchToScene('menu');
-  });
+  const activate = () => switchToScene('menu');
+  button.on('pointerdown', activate);
+  makeFocusable(button, activate);
   
   scene.addChild(button);
+  layout.pin(button, 'top-right', -60, 20);
+}
+
+// Pause button, opens the pause overlay on top of the scene
+export function addPauseButton(
+  scene: PIXI.Container,
+  layout: Layout,
+  pushScene: (id: string) => void
+) {
+  const button = new PIXI.Container();
+  const bg = new PIXI.Graphics();
+  bg.roundRect(-50, -15, 100, 30, 5).fill(0x333333);
+  button.addChild(bg);
   
-  // Update position on resize
-  const resizeHandler = () => {
-    if (button && !button.destroyed) {
-      button.x = app.renderer.width - 60;
-    }
-  };
-  window.addEventListener('resize', resizeHandler);
+  const label = new PIXI.Text({ text: 'Pause', style: { fontSize: 16, fill: '#ffffff' } });
+  label.anchor.set(0.5);
+  button.addChild(label);
+  button.interactive = true;
+  button.cursor = 'pointer';
+  button.on('pointerdown', (event) => {
+    // Keep clickable scenes from reacting to the same press
+    event.stopPropagation();
+    pushScene('pause');
+  });
+  makeFocusable(button, () => pushScene('pause'));
   
-  (button as any).cleanup = () => {
-    window.removeEventListener('resize', resizeHandler);
-  };
+  scene.addChild(button);
+  layout.pin(button, 'top-right', -170, 20);
+}
+
+// Settings button, opens the settings overlay on top of the scene
+export function addSettingsButton(
+  scene: PIXI.Container,
+  layout: Layout,
+  pushScene: (id: string) => void
+) {
+  const button = new PIXI.Container();
+  const bg = new PIXI.Graphics();
+  bg.roundRect(-50, -15, 100, 30, 5).fill(0x333333);
+  button.addChild(bg);
+
+  const label = new PIXI.Text({ text: 'Settings', style: { fontSize: 16, fill: '#ffffff' } });
+  label.anchor.set(0.5);
+  button.addChild(label);
+  button.interactive = true;
+  button.cursor = 'pointer';
+  button.on('pointerdown', (event) => {
+    // Keep clickable scenes from reacting to the same press
+    event.stopPropagation();
+    pushScene('settings');
+  });
+  makeFocusable(button, () => pushScene('settings'));
+
+  scene.addChild(button);
+  layout.pin(button, 'top-right', -280, 20);
+}
+
+// Scene action button, e.g. Shuffle or Restart, pinned along the bottom edge by default
+export function addActionButton(
+  scene: PIXI.Container,
+  layout: Layout,
+  text: string,
+  action: () => void,
+  offsetX = 0,
+  offsetY = -36,
+  anchor: Anchor = 'bottom'
+) {
+  const button = new PIXI.Container();
+  const bg = new PIXI.Graphics();
+  bg.roundRect(-60, -18, 120, 36, 6).fill(0x333333);
+  button.addChild(bg);
+
+  const label = new PIXI.Text({ text, style: { fontSize: 16, fill: '#ffffff' } });
+  label.anchor.set(0.5);
+  button.addChild(label);
+  button.interactive = true;
+  button.cursor = 'pointer';
+  button.on('pointerdown', (event) => {
+    // Keep clickable scenes from reacting to the same press
+    event.stopPropagation();
+    action();
+  });
+  makeFocusable(button, action);
+
+  scene.addChild(button);
+  layout.pin(button, anchor, offsetX, offsetY);
+  return button;
 }
 
 // Tokenize text into words or emoji
@@ -140,20 +189,21 @@ export function createRichTextContainer(
   emojiMap: Record<string, string>,
   maxWidth: number,
   app: PIXI.Application,
-  emojiTextureCache?: Record<string, PIXI.Texture>
+  emojiTextureCache?: Record<string, PIXI.Texture>,
+  // Text size setting, scales fonts, emojis and line height together
+  textScale = 1
 ) {
   const container = new PIXI.Container();
   const tokens = splitTextIntoTokens(text);
   const style = new PIXI.TextStyle({ 
-    fontSize: 18, 
+    fontSize: 18 * textScale, 
     fill: '#ffffff',
     fontFamily: 'monospace'
   });
 
   let x = 0, y = 0;
-  const lineHeight = 24;
-  const emojiSize = 20;
-  const charWidth = 10.8;
+  const lineHeight = 24 * textScale;
+  const emojiSize = 20 * textScale;
 
   for (const token of tokens) {
     if (token.type === 'emoji') {
@@ -322,3 +372,67 @@ export function createRichTextContainer(
   return container;
 }
 
+// Typewriter reveal of a createRichTextContainer result. Words are typed out in place,
+// the layout stays as it was measured, and emojis pop in from their center.
+// Call update with the frame time until done.
+export function createTypewriterReveal(richText: PIXI.Container, options: TypewriterOptions = {}) {
+  // Children are words, spaces and emoji containers in reading order
+  const pieces = richText.children.map(child => child instanceof PIXI.Text
+    ? { view: child, full: child.text }
+    : { view: child, full: null });
+  const segments: TypewriterSegment[] = pieces.map(piece => piece.full !== null
+    ? { type: 'text', text: piece.full }
+    : { type: 'emoji' });
+  const writer = createTypewriter(segments, options);
+  const shown: number[] = pieces.map(() => -1);
+
+  pieces.forEach(piece => {
+    if (piece.full !== null) return;
+    // Scale around the middle of the emoji without moving it
+    const { width, height } = piece.view.getLocalBounds();
+    piece.view.pivot.set(width / 2, height / 2);
+    piece.view.position.set(piece.view.x + width / 2, piece.view.y + height / 2);
+  });
+
+  function render() {
+    pieces.forEach((piece, i) => {
+      if (piece.full !== null) {
+        const count = writer.visibleChars(i);
+        if (count === shown[i]) return;
+        shown[i] = count;
+        (piece.view as PIXI.Text).text = Array.from(piece.full).slice(0, count).join('');
+        return;
+      }
+      const progress = writer.emojiProgress(i);
+      if (progress === shown[i]) return;
+      shown[i] = progress;
+      piece.view.visible = progress > 0;
+      piece.view.scale.set(easings.backOut(progress));
+    });
+  }
+
+  render();
+
+  return {
+    get done() {
+      return writer.done;
+    },
+
+    update(deltaMs: number) {
+      if (writer.done) return;
+      writer.update(deltaMs);
+      render();
+    },
+
+    complete() {
+      writer.complete();
+      render();
+    },
+
+    onComplete(handler: () => void) {
+      writer.onComplete(handler);
+    }
+  };
+}
+
+export type TypewriterReveal = ReturnType<typeof createTypewriterReveal>;
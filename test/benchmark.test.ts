@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRampBenchmark } from '../src/benchmark';
+
+// Feed frames for one whole step
+function runStep(benchmark: ReturnType<typeof createRampBenchmark>, frameMs: number, stepMs = 100) {
+  let count = benchmark.count;
+  for (let elapsed = 0; elapsed < stepMs; elapsed += frameMs) {
+    count = benchmark.addFrame(frameMs);
+  }
+  return count;
+}
+
+test('the count grows while frames stay within budget', () => {
+  const benchmark = createRampBenchmark({ startCount: 100, maxCount: 1000, growth: 2, stepMs: 100, settleMs: 20 });
+  assert.equal(runStep(benchmark, 10), 200);
+  assert.equal(runStep(benchmark, 10), 400);
+  assert.equal(benchmark.isDone, false);
+  assert.deepEqual(benchmark.steps.map(step => step.count), [100, 200]);
+});
+
+test('the run ends at the first step over budget and reports the last good count', () => {
+  const benchmark = createRampBenchmark({ startCount: 100, maxCount: 1000, growth: 2, stepMs: 100, settleMs: 0, frameBudgetMs: 20 });
+  runStep(benchmark, 10);
+  runStep(benchmark, 25);
+  assert.equal(benchmark.isDone, true);
+  assert.equal(benchmark.result!.reason, 'degraded');
+  assert.equal(benchmark.result!.maxCount, 100);
+  assert.equal(benchmark.result!.steps[1].avgFrameMs, 25);
+  // Further frames change nothing
+  assert.equal(benchmark.addFrame(10), 200);
+});
+
+test('settling frames are not measured', () => {
+  const benchmark = createRampBenchmark({ startCount: 10, maxCount: 100, stepMs: 100, settleMs: 50, frameBudgetMs: 20 });
+  // A slow frame right after the count changed does not count
+  benchmark.addFrame(40);
+  runStep(benchmark, 10, 60);
+  assert.equal(benchmark.steps[0].avgFrameMs, 10);
+  assert.equal(benchmark.isDone, false);
+});
+
+test('the run stops at the maximum count', () => {
+  const benchmark = createRampBenchmark({ startCount: 50, maxCount: 60, growth: 2, stepMs: 100, settleMs: 0 });
+  assert.equal(runStep(benchmark, 10), 60);
+  runStep(benchmark, 10);
+  assert.deepEqual(benchmark.result && [benchmark.result.reason, benchmark.result.maxCount], ['max-count', 60]);
+});
@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { blendCardLayouts, createCardLayout } from '../src/cards/cardLayout';
+
+const options = { cardWidth: 100, cardHeight: 140, maxWidth: 400, maxHeight: 400, stackOffset: { x: 1, y: 2 } };
+
+test('stack offsets every card from the one below', () => {
+  const stack = createCardLayout('stack', options);
+  assert.deepEqual(stack(3, 10), { x: 3, y: 6, rotation: 0 });
+});
+
+test('a fan is symmetric around the middle card and fits the room', () => {
+  const fan = createCardLayout('fan', options);
+  const left = fan(0, 9);
+  const middle = fan(4, 9);
+  const right = fan(8, 9);
+  assert.equal(middle.x, 0);
+  assert.equal(middle.rotation, 0);
+  assert.ok(Math.abs(left.x + right.x) < 1e-9);
+  assert.ok(left.rotation < 0 && right.rotation > 0);
+  // Outer cards sink below the middle one
+  assert.ok(left.y > middle.y);
+
+  const wide = createCardLayout('fan', { ...options, maxWidth: 150 });
+  assert.ok(wide(19, 20).x - wide(0, 20).x <= 50 + 1e-9);
+});
+
+test('a spread narrows to fit and is centered', () => {
+  const spread = createCardLayout('spread', options);
+  assert.deepEqual([spread(0, 3).x, spread(1, 3).x, spread(2, 3).x], [-30, 0, 30]);
+  // 101 cards in 400px: the outer card centers are 300px apart
+  assert.equal(spread(100, 101).x - spread(0, 101).x, 300);
+  assert.deepEqual(spread(0, 1), { x: 0, y: 0, rotation: 0 });
+});
+
+test('a grid fills rows from the top left', () => {
+  const grid = createCardLayout('grid', options);
+  // 4 cards: 2 columns, 2 rows
+  const slots = [0, 1, 2, 3].map(i => grid(i, 4));
+  assert.ok(slots[0].x < slots[1].x && slots[0].y === slots[1].y);
+  assert.ok(slots[2].y > slots[0].y && slots[2].x === slots[0].x);
+});
+
+test('blending moves the bottom card first and ends on the target layout', () => {
+  const from = createCardLayout('stack', options);
+  const to = createCardLayout('spread', options);
+  const early = blendCardLayouts(from, to, 0.25, 0.5);
+  assert.ok(early(0, 3).x !== from(0, 3).x);
+  assert.deepEqual(early(2, 3), from(2, 3));
+
+  assert.deepEqual(blendCardLayouts(from, to, 0, 0.5)(1, 3), from(1, 3));
+  assert.deepEqual(blendCardLayouts(from, to, 1, 0.5)(1, 3), to(1, 3));
+});
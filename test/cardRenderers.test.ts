@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Container, ParticleContainer, Sprite, Texture } from 'pixi.js';
+import { createParticleCardRenderer, createSpriteCardRenderer } from '../src/cards/cardRenderers';
+
+function drawCards(renderer: ReturnType<typeof createSpriteCardRenderer>, count: number) {
+  renderer.begin();
+  for (let i = 0; i < count; i++) {
+    renderer.draw(Texture.WHITE, i, i * 2, 0.5, 1);
+  }
+  renderer.end();
+}
+
+test('the particle renderer keeps one particle per drawn card, in draw order', () => {
+  const renderer = createParticleCardRenderer(Texture.WHITE);
+  const container = renderer.container as ParticleContainer;
+  drawCards(renderer, 3);
+  assert.equal(container.particleChildren.length, 3);
+  assert.deepEqual(
+    container.particleChildren.map(particle => [particle.x, particle.y, particle.scaleX]),
+    [[0, 0, 0.5], [1, 2, 0.5], [2, 4, 0.5]]
+  );
+
+  drawCards(renderer, 1);
+  assert.equal(container.particleChildren.length, 1);
+});
+
+test('the sprite renderer reuses its sprites and hides the ones not drawn', () => {
+  const renderer = createSpriteCardRenderer();
+  const container = renderer.container as Container;
+  drawCards(renderer, 3);
+  const sprites = [...container.children] as Sprite[];
+
+  drawCards(renderer, 2);
+  assert.deepEqual(container.children, sprites);
+  assert.deepEqual(sprites.map(sprite => sprite.visible), [true, true, false]);
+  assert.equal(sprites[1].y, 2);
+});
@@ -0,0 +1,98 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Container } from 'pixi.js';
+import { createDeck } from '../src/cards/deck';
+
+function createCards(count: number): Container[] {
+  return Array.from({ length: count }, () => new Container());
+}
+
+test('push, peek and pop work from the top', () => {
+  const deck = createDeck<Container>(1, 2);
+  const [a, b] = createCards(2);
+  assert.equal(deck.peek(), null);
+  assert.equal(deck.pop(), null);
+
+  deck.push(a);
+  deck.push(b);
+  assert.equal(deck.size, 2);
+  assert.equal(deck.peek(), b);
+  assert.deepEqual([b.x, b.y], [1, 2]);
+
+  assert.equal(deck.pop(), b);
+  assert.equal(b.parent, null);
+  assert.equal(deck.peek(), a);
+});
+
+test('cards are drawn in pile order', () => {
+  const deck = createDeck<Container>();
+  const cards = createCards(3);
+  cards.forEach(card => deck.push(card));
+  assert.deepEqual(deck.container.children, cards);
+});
+
+test('insertAt moves the cards above up one slot', () => {
+  const deck = createDeck<Container>(10, 0);
+  const [a, b, c] = createCards(3);
+  deck.push(a);
+  deck.push(b);
+  deck.insertAt(c, 1);
+  assert.deepEqual(deck.cards, [a, c, b]);
+  assert.deepEqual(deck.container.children, [a, c, b]);
+  assert.deepEqual([c.x, b.x], [10, 20]);
+  assert.equal(deck.peek(), b);
+
+  // Out of range indices clamp to the pile
+  const d = new Container();
+  deck.insertAt(d, 99);
+  assert.equal(deck.peek(), d);
+});
+
+test('remove takes a card from the middle', () => {
+  const deck = createDeck<Container>(5, 5);
+  const [a, b, c] = createCards(3);
+  [a, b, c].forEach(card => deck.push(card));
+  assert.equal(deck.remove(b), true);
+  assert.equal(deck.remove(b), false);
+  assert.deepEqual(deck.cards, [a, c]);
+  assert.deepEqual([c.x, c.y], [5, 5]);
+});
+
+test('setStackOffset restacks every card', () => {
+  const deck = createDeck<Container>();
+  const cards = createCards(3);
+  cards.forEach(card => deck.push(card));
+  deck.setStackOffset(0, 20);
+  assert.deepEqual(cards.map(card => card.y), [0, 20, 40]);
+  assert.deepEqual([deck.getStackPosition().x, deck.getStackPosition().y], [0, 60]);
+});
+
+test('reorder changes pile and draw order', () => {
+  const deck = createDeck<Container>(1, 0);
+  const [a, b, c] = createCards(3);
+  [a, b, c].forEach(card => deck.push(card));
+
+  deck.reorder([c, a, b]);
+  assert.deepEqual(deck.cards, [c, a, b]);
+  assert.deepEqual(deck.container.children, [c, a, b]);
+  assert.equal(deck.peek(), b);
+  assert.equal(c.x, 0);
+  assert.throws(() => deck.reorder([a, b]));
+});
+
+test('a slot layout places every card again when the pile changes', () => {
+  const deck = createDeck<Container>();
+  const cards = createCards(3);
+  cards.forEach(card => deck.push(card));
+  // Cards centered on the origin, so every card moves when one leaves
+  deck.setSlotLayout((index, count) => ({ x: index - (count - 1) / 2, y: 0, rotation: index * 0.1 }));
+  assert.deepEqual(cards.map(card => card.x), [-1, 0, 1]);
+  assert.equal(cards[2].rotation, 0.2);
+
+  deck.pop();
+  assert.deepEqual([cards[0].x, cards[1].x], [-0.5, 0.5]);
+  assert.deepEqual([deck.getStackPosition().x, deck.getStackPosition().y], [1, 0]);
+
+  deck.setSlotLayout(null);
+  assert.deepEqual([cards[1].x, cards[1].y, cards[1].rotation], [0.6, 0.6, 0]);
+});
@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyDeckAction, createDeckHistory, revertDeckAction } from '../src/simulation/deckHistory';
+
+test('moves and shuffles play forwards and backwards', () => {
+  const piles = [[0, 1, 2], []];
+  assert.equal(applyDeckAction(piles, { type: 'move', cardId: 2, from: 0, to: 1 }), true);
+  assert.deepEqual(piles, [[0, 1], [2]]);
+  assert.equal(applyDeckAction(piles, { type: 'shuffle', pile: 0, before: [0, 1], after: [1, 0] }), true);
+  assert.deepEqual(piles, [[1, 0], [2]]);
+
+  assert.equal(revertDeckAction(piles, { type: 'shuffle', pile: 0, before: [0, 1], after: [1, 0] }), true);
+  assert.equal(revertDeckAction(piles, { type: 'move', cardId: 2, from: 0, to: 1 }), true);
+  assert.deepEqual(piles, [[0, 1, 2], []]);
+});
+
+test('actions that do not match the piles leave them alone', () => {
+  const piles = [[0, 1], [2]];
+  assert.equal(applyDeckAction(piles, { type: 'move', cardId: 0, from: 0, to: 1 }), false);
+  assert.equal(applyDeckAction(piles, { type: 'shuffle', pile: 0, before: [1, 0], after: [0, 1] }), false);
+  assert.equal(revertDeckAction(piles, { type: 'move', cardId: 1, from: 0, to: 1 }), false);
+  assert.deepEqual(piles, [[0, 1], [2]]);
+});
+
+test('undo and redo walk the history, a new action drops the redo steps', () => {
+  const piles = [[0, 1, 2], []];
+  const history = createDeckHistory();
+  [2, 1].forEach(cardId => {
+    applyDeckAction(piles, { type: 'move', cardId, from: 0, to: 1 });
+    history.record({ type: 'move', cardId, from: 0, to: 1 });
+  });
+
+  assert.equal(history.undo(piles)?.type, 'move');
+  assert.deepEqual(piles, [[0, 1], [2]]);
+  assert.equal(history.canRedo, true);
+  history.redo(piles);
+  assert.deepEqual(piles, [[0], [2, 1]]);
+
+  history.undo(piles);
+  history.undo(piles);
+  assert.deepEqual(piles, [[0, 1, 2], []]);
+  assert.equal(history.undo(piles), null);
+
+  history.redo(piles);
+  history.record({ type: 'move', cardId: 2, from: 1, to: 0 });
+  assert.equal(history.canRedo, false);
+  assert.deepEqual(history.getState().past.length, 2);
+});
+
+test('a history that no longer matches the piles is cleared', () => {
+  const history = createDeckHistory({ past: [{ type: 'move', cardId: 5, from: 0, to: 1 }], future: [] });
+  const piles = [[0], [1]];
+  assert.equal(history.undo(piles), null);
+  assert.equal(history.canUndo, false);
+  assert.deepEqual(piles, [[0], [1]]);
+});
+
+test('the oldest actions are dropped beyond the limit', () => {
+  const history = createDeckHistory({ past: [], future: [] }, 2);
+  [0, 1, 2].forEach(cardId => history.record({ type: 'move', cardId, from: 0, to: 1 }));
+  assert.deepEqual(history.getState().past.map(action => action.type === 'move' && action.cardId), [1, 2]);
+});
@@ -0,0 +1,292 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createManualClock, createSeededRandom } from '../src/simulation/core';
+import {
+  CardFlight,
+  CycleOrder,
+  LEFT_PILE,
+  PileMove,
+  RIGHT_PILE,
+  createDeckModel,
+  createPileCycler
+} from '../src/simulation/deckModel';
+
+function createTestDeck(cardCount: number) {
+  const clock = createManualClock();
+  const launched: CardFlight[] = [];
+  const landed: CardFlight[] = [];
+  const model = createDeckModel({
+    cardCount,
+    moveInterval: 100,
+    durationMs: 50,
+    clock,
+    random: createSeededRandom(1),
+    onCardLaunched: flight => launched.push(flight),
+    onCardLanded: flight => landed.push(flight)
+  });
+
+  // Advance long enough for exactly one card to launch and land
+  function moveOneCard() {
+    clock.advance(100);
+    model.update();
+    clock.advance(50);
+    model.update();
+  }
+
+  return { clock, model, launched, landed, moveOneCard };
+}
+
+test('all cards start on the left pile', () => {
+  const { model } = createTestDeck(4);
+  assert.deepEqual(model.piles[LEFT_PILE], [0, 1, 2, 3]);
+  assert.deepEqual(model.piles[RIGHT_PILE], []);
+  assert.equal(model.getTopCardId(LEFT_PILE), 3);
+  assert.equal(model.getTopCardId(RIGHT_PILE), null);
+});
+
+test('nothing moves before the interval has passed', () => {
+  const { clock, model, launched } = createTestDeck(4);
+  clock.advance(99);
+  model.update();
+  assert.equal(launched.length, 0);
+  assert.equal(model.flights.length, 0);
+});
+
+test('the top card moves first and the order is reversed on the target pile', () => {
+  const { model, moveOneCard } = createTestDeck(4);
+  moveOneCard();
+  assert.deepEqual(model.piles[LEFT_PILE], [0, 1, 2]);
+  assert.deepEqual(model.piles[RIGHT_PILE], [3]);
+
+  moveOneCard();
+  moveOneCard();
+  moveOneCard();
+  assert.deepEqual(model.piles[LEFT_PILE], []);
+  assert.deepEqual(model.piles[RIGHT_PILE], [3, 2, 1, 0]);
+});
+
+test('a card is off both piles while in flight', () => {
+  const { clock, model, launched, landed } = createTestDeck(3);
+  clock.advance(100);
+  model.update();
+  assert.equal(launched.length, 1);
+  assert.equal(landed.length, 0);
+  assert.equal(model.piles[LEFT_PILE].length + model.piles[RIGHT_PILE].length, 2);
+
+  const flight = model.flights[0];
+  assert.equal(flight.cardId, 2);
+  assert.equal(flight.targetIndex, 0);
+
+  clock.advance(25);
+  assert.equal(model.getFlightProgress(flight), 0.5);
+
+  clock.advance(25);
+  model.update();
+  assert.equal(landed.length, 1);
+  assert.equal(model.flights.length, 0);
+});
+
+test('only one card is in flight at a time', () => {
+  const { clock, model } = createTestDeck(5);
+  clock.advance(100);
+  model.update();
+  // The interval passes again while the first card is still flying
+  clock.advance(40);
+  model.update();
+  assert.equal(model.flights.length, 1);
+});
+
+test('several cards fly at once when maxFlights allows it', () => {
+  const { clock, model, launched } = createTestDeck(5);
+  model.setTuning({ maxFlights: 2, moveInterval: 10 });
+  clock.advance(10);
+  model.update();
+  clock.advance(10);
+  model.update();
+  clock.advance(10);
+  model.update();
+  assert.equal(model.flights.length, 2);
+  // The second card lands on top of the first one
+  assert.deepEqual(launched.map(flight => flight.targetIndex), [0, 1]);
+});
+
+test('the landing slot follows cards put onto or taken off the target pile mid-flight', () => {
+  const { clock, model } = createTestDeck(5);
+  model.setTuning({ maxFlights: 2, moveInterval: 10 });
+  clock.advance(10);
+  model.update();
+  clock.advance(10);
+  model.update();
+  const [first, second] = model.flights;
+  assert.deepEqual([model.getTargetIndex(first), model.getTargetIndex(second)], [0, 1]);
+
+  // A card dropped onto the target pile lands below both
+  model.moveTopCard(LEFT_PILE, RIGHT_PILE);
+  assert.deepEqual([model.getTargetIndex(first), model.getTargetIndex(second)], [1, 2]);
+  model.takeTopCard(RIGHT_PILE);
+  assert.deepEqual([model.getTargetIndex(first), model.getTargetIndex(second)], [0, 1]);
+  // The plan made at launch is kept
+  assert.equal(second.targetIndex, 1);
+});
+
+test('tuning changes apply to the next launch', () => {
+  const { clock, model } = createTestDeck(3);
+  model.setTuning({ durationMs: 400, maxFlights: 0 });
+  assert.equal(model.tuning.maxFlights, 1);
+  clock.advance(100);
+  model.update();
+  assert.equal(model.flights[0].durationMs, 400);
+});
+
+test('cards can be added and removed while running', () => {
+  const { clock, model } = createTestDeck(3);
+  clock.advance(100);
+  model.update();
+
+  assert.deepEqual(model.addCards(2), [3, 4]);
+  assert.deepEqual(model.piles[LEFT_PILE], [0, 1, 3, 4]);
+  assert.equal(model.cardCount, 5);
+
+  // The card in flight is not removed
+  assert.deepEqual(model.removeCards(10), [
+    { pile: LEFT_PILE, cardId: 4 },
+    { pile: LEFT_PILE, cardId: 3 },
+    { pile: LEFT_PILE, cardId: 1 },
+    { pile: LEFT_PILE, cardId: 0 }
+  ]);
+  assert.equal(model.cardCount, 1);
+  assert.equal(model.flights.length, 1);
+});
+
+test('direction flips when a pile runs empty', () => {
+  const { model, launched, moveOneCard } = createTestDeck(2);
+  moveOneCard();
+  moveOneCard();
+  moveOneCard();
+  moveOneCard();
+
+  assert.deepEqual(
+    launched.map(flight => [flight.cardId, flight.from, flight.to]),
+    [
+      [1, LEFT_PILE, RIGHT_PILE],
+      [0, LEFT_PILE, RIGHT_PILE],
+      [0, RIGHT_PILE, LEFT_PILE],
+      [1, RIGHT_PILE, LEFT_PILE]
+    ]
+  );
+  assert.deepEqual(model.piles[LEFT_PILE], [0, 1]);
+});
+
+test('moveTopCard transfers the top card immediately', () => {
+  const { model } = createTestDeck(3);
+  assert.equal(model.moveTopCard(LEFT_PILE, RIGHT_PILE), 2);
+  assert.equal(model.moveTopCard(LEFT_PILE, RIGHT_PILE), 1);
+  assert.deepEqual(model.piles[LEFT_PILE], [0]);
+  assert.deepEqual(model.piles[RIGHT_PILE], [2, 1]);
+  assert.equal(model.moveTopCard(RIGHT_PILE, RIGHT_PILE), 1);
+  assert.deepEqual(model.piles[RIGHT_PILE], [2, 1]);
+  assert.equal(createTestDeck(0).model.moveTopCard(LEFT_PILE, RIGHT_PILE), null);
+});
+
+test('no card launches while paused, the interval restarts on resume', () => {
+  const { clock, model, launched } = createTestDeck(3);
+  model.pause();
+  clock.advance(500);
+  model.update();
+  assert.equal(launched.length, 0);
+
+  model.resume();
+  clock.advance(99);
+  model.update();
+  assert.equal(launched.length, 0);
+  clock.advance(1);
+  model.update();
+  assert.equal(launched.length, 1);
+});
+
+test('a flight in the air still lands while paused', () => {
+  const { clock, model, landed } = createTestDeck(3);
+  clock.advance(100);
+  model.update();
+  model.pause();
+  clock.advance(50);
+  model.update();
+  assert.equal(landed.length, 1);
+  assert.deepEqual(model.piles[RIGHT_PILE], [2]);
+});
+
+// Run a cycler over piles of card ids, applying every move
+function runCycler(order: CycleOrder, piles: number[][], moves: number, seed = 1): PileMove[] {
+  const cycler = createPileCycler(order, piles.length, createSeededRandom(seed));
+  const result: PileMove[] = [];
+  for (let i = 0; i < moves; i++) {
+    const move = cycler.next(piles);
+    if (!move) break;
+    piles[move.to].push(piles[move.from].pop()!);
+    result.push(move);
+  }
+  return result;
+}
+
+test('ping-pong moves a whole pile to its neighbour and bounces at the ends', () => {
+  const moves = runCycler('ping-pong', [[0, 1], [], []], 8);
+  assert.deepEqual(
+    moves.map(move => [move.from, move.to]),
+    [[0, 1], [0, 1], [1, 2], [1, 2], [2, 1], [2, 1], [1, 0], [1, 0]]
+  );
+});
+
+test('round-robin deals to the other piles in turn', () => {
+  const piles = [[0, 1, 2, 3], [], []];
+  const moves = runCycler('round-robin', piles, 4);
+  assert.deepEqual(moves.map(move => [move.from, move.to]), [[0, 1], [0, 2], [0, 1], [0, 2]]);
+  assert.deepEqual(piles, [[], [3, 1], [2, 0]]);
+
+  // The next non-empty pile deals once the source is empty
+  const next = runCycler('round-robin', piles, 1);
+  assert.equal(next[0].from, 1);
+});
+
+test('random moves always go between two different piles', () => {
+  const piles = [[0, 1, 2, 3, 4, 5], [], [], []];
+  const moves = runCycler('random', piles, 200, 42);
+  assert.equal(moves.length, 200);
+  moves.forEach(move => assert.notEqual(move.from, move.to));
+  assert.equal(piles.flat().length, 6);
+});
+
+test('no move is possible without cards or with a single pile', () => {
+  assert.equal(createPileCycler('ping-pong', 2, Math.random).next([[], []]), null);
+  assert.equal(createPileCycler('round-robin', 1, Math.random).next([[0]]), null);
+});
+
+test('the deck model spreads cards over any number of piles', () => {
+  const clock = createManualClock();
+  const model = createDeckModel({
+    cardCount: 6,
+    pileCount: 3,
+    order: 'round-robin',
+    moveInterval: 100,
+    durationMs: 50,
+    clock,
+    random: createSeededRandom(1)
+  });
+  assert.equal(model.piles.length, 3);
+  for (let i = 0; i < 4; i++) {
+    clock.advance(100);
+    model.update();
+    clock.advance(50);
+    model.update();
+  }
+  assert.deepEqual(model.piles, [[0, 1], [5, 3], [4, 2]]);
+});
+
+test('shufflePile reorders one pile and reports the old order', () => {
+  const { model } = createTestDeck(10);
+  const before = [...model.piles[LEFT_PILE]];
+  const result = model.shufflePile(LEFT_PILE, 'riffle', createSeededRandom(5));
+  assert.deepEqual(result.before, before);
+  assert.deepEqual(result.after, model.piles[LEFT_PILE]);
+  assert.deepEqual([...result.after].sort((a, b) => a - b), [...before].sort((a, b) => a - b));
+  assert.ok(result.cut >= 0 && result.cut <= before.length);
+});
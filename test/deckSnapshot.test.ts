@@ -0,0 +1,99 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createManualClock, createSeededRandom } from '../src/simulation/core';
+import { createDeckModel } from '../src/simulation/deckModel';
+import {
+  DECK_SNAPSHOT_VERSION,
+  createDeckSnapshot,
+  loadDeckSnapshot,
+  parseDeckSnapshot,
+  saveDeckSnapshot
+} from '../src/simulation/deckSnapshot';
+import { createMemoryStorage } from './helpers/memoryStorage';
+
+function createTestDeck(options: { piles?: number[][]; nextCardId?: number } = {}) {
+  const clock = createManualClock();
+  const model = createDeckModel({
+    cardCount: 4,
+    moveInterval: 0,
+    durationMs: 100,
+    maxFlights: 2,
+    clock,
+    random: createSeededRandom(1),
+    ...options
+  });
+  return { clock, model };
+}
+
+test('cards in the air are saved on the pile they fly to', () => {
+  const { model } = createTestDeck();
+  // One card launches per update
+  model.update();
+  model.update();
+  assert.equal(model.flights.length, 2);
+
+  const snapshot = createDeckSnapshot(model);
+  assert.equal(snapshot.version, DECK_SNAPSHOT_VERSION);
+  assert.deepEqual(snapshot.piles, [[0, 1], [3, 2]]);
+  assert.equal(snapshot.nextCardId, 4);
+  // The model itself is untouched
+  assert.deepEqual(model.piles, [[0, 1], []]);
+});
+
+test('finishFlights lands every card at once', () => {
+  const landed: number[] = [];
+  const model = createDeckModel({
+    cardCount: 3,
+    moveInterval: 0,
+    durationMs: 100,
+    maxFlights: 3,
+    clock: createManualClock(),
+    random: createSeededRandom(1),
+    onCardLanded: flight => landed.push(flight.cardId)
+  });
+  model.update();
+  model.update();
+  model.update();
+  model.finishFlights();
+  assert.deepEqual(landed, [2, 1, 0]);
+  assert.deepEqual(model.piles, [[], [2, 1, 0]]);
+  assert.equal(model.flights.length, 0);
+});
+
+test('a model starts from saved piles and keeps new card ids unique', () => {
+  const { model } = createTestDeck({ piles: [[3], [0, 7], [1]], nextCardId: 5 });
+  assert.deepEqual(model.piles, [[3], [0, 7], [1]]);
+  assert.equal(model.cardCount, 4);
+  assert.deepEqual(model.addCards(1), [8]);
+});
+
+test('snapshots survive a round trip through storage', () => {
+  const storage = createMemoryStorage();
+  const { model } = createTestDeck({ piles: [[2, 0], [1, 3]] });
+  const history = { past: [{ type: 'move' as const, cardId: 3, from: 0, to: 1 }], future: [] };
+  saveDeckSnapshot('deck', createDeckSnapshot(model, history), storage);
+
+  const loaded = loadDeckSnapshot('deck', storage);
+  assert.deepEqual(loaded, { version: DECK_SNAPSHOT_VERSION, piles: [[2, 0], [1, 3]], nextCardId: 4, history });
+  assert.equal(loadDeckSnapshot('other', storage), null);
+});
+
+test('snapshots from another version or with duplicate cards are rejected', () => {
+  assert.equal(parseDeckSnapshot({ version: 0, piles: [[0], [1]], nextCardId: 2 }), null);
+  assert.equal(parseDeckSnapshot({ version: DECK_SNAPSHOT_VERSION, piles: [[0], [0]], nextCardId: 1 }), null);
+  assert.equal(parseDeckSnapshot({ version: DECK_SNAPSHOT_VERSION, piles: [[0, -1], []] }), null);
+  assert.equal(parseDeckSnapshot('nope'), null);
+
+  const storage = createMemoryStorage();
+  storage.setItem('deck', '{not json');
+  assert.equal(loadDeckSnapshot('deck', storage), null);
+});
+
+test('a broken history is dropped but the piles are kept', () => {
+  const snapshot = parseDeckSnapshot({
+    version: DECK_SNAPSHOT_VERSION,
+    piles: [[0], [1, 2]],
+    history: { past: [{ type: 'move', cardId: 1, from: 0, to: 9 }], future: [] }
+  });
+  assert.deepEqual(snapshot, { version: DECK_SNAPSHOT_VERSION, piles: [[0], [1, 2]], nextCardId: 3, history: { past: [], future: [] } });
+});
@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  DialogueGraph,
+  checkDialogueCondition,
+  createDialogueRunner,
+  loadDialogueGraph
+} from '../src/simulation/dialogueModel';
+
+const lines = [
+  { name: 'Sheldon', text: 'Hello' },
+  { name: 'Penny', text: 'Hi' }
+];
+
+const graph: DialogueGraph = {
+  start: 'hello',
+  variables: { trust: 0 },
+  nodes: {
+    hello: {
+      lines: [{ name: 'Sheldon', text: 'Hello' }, { name: 'Sheldon', text: 'Again?', if: { trust: { '>': 0 } } }],
+      choices: [
+        { text: 'Be nice', set: { trust: { add: 1 } }, goto: 'hello' },
+        { text: 'Leave', goto: 'bye' },
+        { text: 'Stay', if: { trust: { '>=': 2 } } }
+      ]
+    },
+    bye: {
+      lines: [{ name: 'Penny', text: 'Bye' }],
+      next: [{ goto: 'friends', if: { trust: { '>=': 1 } } }, { goto: 'alone' }]
+    },
+    friends: { end: 'Friends' },
+    alone: { end: 'Alone' }
+  }
+};
+
+test('a flat line list loads as a linear graph', () => {
+  const runner = createDialogueRunner(loadDialogueGraph(lines));
+  assert.equal(runner.advance(), lines[0]);
+  assert.equal(runner.advance(), lines[1]);
+  assert.equal(runner.advance(), null);
+  assert.equal(runner.isFinished, true);
+  assert.equal(runner.ending, null);
+  // Advancing past the end stays there
+  assert.equal(runner.advance(), null);
+
+  const empty = createDialogueRunner(loadDialogueGraph([]));
+  assert.equal(empty.current(), null);
+  assert.equal(empty.advance(), null);
+  assert.equal(empty.isFinished, true);
+});
+
+test('choices wait under the last line and set variables that later conditions read', () => {
+  const runner = createDialogueRunner(graph);
+  assert.equal(runner.advance()?.text, 'Hello');
+  assert.deepEqual(runner.choices().map(({ choice }) => choice.text), ['Be nice', 'Leave']);
+  // Advancing does not skip a choice
+  assert.equal(runner.advance()?.text, 'Hello');
+
+  assert.equal(runner.choose(0)?.text, 'Hello');
+  assert.equal(runner.variables.trust, 1);
+  // The conditional line shows up on the second visit
+  assert.equal(runner.advance()?.text, 'Again?');
+  assert.equal(runner.choose(1)?.text, 'Bye');
+  assert.equal(runner.advance(), null);
+  assert.equal(runner.ending, 'Friends');
+});
+
+test('conditional jumps pick another ending and a saved state rewinds the run', () => {
+  const runner = createDialogueRunner(graph);
+  runner.advance();
+  const atHello = runner.getState();
+  runner.choose(1);
+  runner.advance();
+  assert.equal(runner.ending, 'Alone');
+
+  runner.restore(atHello);
+  assert.equal(runner.isFinished, false);
+  assert.equal(runner.current()?.text, 'Hello');
+  assert.equal(runner.choices().length, 2);
+});
+
+test('conditions compare with operators and read unset variables as false', () => {
+  assert.equal(checkDialogueCondition({ a: { '>=': 1, '<': 3 } }, { a: 2 }), true);
+  assert.equal(checkDialogueCondition({ a: { '>=': 1 } }, { a: 'x' }), false);
+  assert.equal(checkDialogueCondition({ seen: false }, {}), true);
+  assert.equal(checkDialogueCondition({ name: { '!=': 'Amy' } }, { name: 'Penny' }), true);
+});
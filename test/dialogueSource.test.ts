@@ -0,0 +1,99 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createCacheSource,
+  createFixtureSource,
+  createHttpSource,
+  createInlineSource,
+  createPayloadCache,
+  isAbortError,
+  loadFromSources
+} from '../src/simulation/dialogueSource';
+import { validateMagicWordsData } from '../src/simulation/magicWordsSchema';
+import { createMemoryStorage } from './helpers/memoryStorage';
+
+// fetch answering with the given responses in turn, errors are thrown
+function createFakeFetch(answers: (Response | Error)[]) {
+  const calls: RequestInit[] = [];
+  const fake = async (_input: RequestInfo | URL, init?: RequestInit) => {
+    calls.push(init ?? {});
+    const answer = answers[Math.min(calls.length - 1, answers.length - 1)];
+    if (answer instanceof Error) throw answer;
+    return answer;
+  };
+  return { fetch: fake as typeof fetch, calls };
+}
+
+// fetch that never answers, it only ends when its signal aborts
+const hangingFetch = ((_input: RequestInfo | URL, init?: RequestInit) => new Promise((_, reject) => {
+  init?.signal?.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+})) as typeof fetch;
+
+const payload = { dialogue: [{ name: 'Sheldon', text: 'Hi' }], emojies: [], avatars: [] };
+
+test('network errors and server errors are retried until an answer arrives', async () => {
+  const fake = createFakeFetch([
+    new TypeError('fetch failed'),
+    new Response('busy', { status: 503 }),
+    Response.json(payload)
+  ]);
+  const source = createHttpSource('https://example.test', { fetch: fake.fetch, retries: 2, backoffMs: 1 });
+  assert.deepEqual(await source.load(), payload);
+  assert.equal(fake.calls.length, 3);
+});
+
+test('client errors and retries running out end the load', async () => {
+  const notFound = createFakeFetch([new Response('', { status: 404 })]);
+  await assert.rejects(createHttpSource('https://example.test', { fetch: notFound.fetch, backoffMs: 1 }).load(), /404/);
+  assert.equal(notFound.calls.length, 1);
+
+  const down = createFakeFetch([new TypeError('fetch failed')]);
+  await assert.rejects(createHttpSource('https://example.test', { fetch: down.fetch, retries: 1, backoffMs: 1 }).load(), /Network error/);
+  assert.equal(down.calls.length, 2);
+});
+
+test('an attempt without an answer times out, an abort stops without retrying', async () => {
+  const timed = createHttpSource('https://example.test', { fetch: hangingFetch, timeoutMs: 5, retries: 0 });
+  await assert.rejects(timed.load(), /No answer within 5 ms/);
+
+  const controller = new AbortController();
+  const aborted = createHttpSource('https://example.test', { fetch: hangingFetch, timeoutMs: 1000, retries: 3 });
+  const load = aborted.load(controller.signal);
+  controller.abort();
+  await assert.rejects(load, error => isAbortError(error));
+});
+
+test('the first payload that parses is used and a network payload is cached', async () => {
+  const cache = createPayloadCache('key', createMemoryStorage());
+  const parse = (value: unknown) => validateMagicWordsData(value).data;
+  const fake = createFakeFetch([Response.json(payload)]);
+
+  const first = await loadFromSources(
+    [createHttpSource('https://example.test', { fetch: fake.fetch }), createCacheSource(cache)],
+    { parse, cache }
+  );
+  assert.equal(first.source.kind, 'http');
+  assert.deepEqual(cache.read()?.payload, payload);
+
+  // Offline: the network fails, the broken inline object is passed over, the cache answers
+  const down = createFakeFetch([new Response('', { status: 404 })]);
+  const second = await loadFromSources([
+    createHttpSource('https://example.test', { fetch: down.fetch }),
+    createInlineSource({ messages: [] }),
+    createCacheSource(cache),
+    createFixtureSource()
+  ], { parse, cache });
+  assert.equal(second.source.kind, 'cache');
+  assert.deepEqual(second.payload, payload);
+  assert.deepEqual(second.failures.map(failure => failure.source.kind), ['http', 'inline']);
+});
+
+test('the bundled fixture passes the schema and is the last resort', async () => {
+  const fixture = await createFixtureSource().load();
+  assert.deepEqual(validateMagicWordsData(fixture).issues, []);
+
+  const empty = createCacheSource(createPayloadCache('key', createMemoryStorage()));
+  const loaded = await loadFromSources([empty, createFixtureSource()]);
+  assert.equal(loaded.source.kind, 'fixture');
+  await assert.rejects(loadFromSources([empty]), /Saved copy: Nothing saved yet/);
+});
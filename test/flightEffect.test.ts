@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Container, PerspectiveMesh, Sprite, Texture } from 'pixi.js';
+import { computeFlightPose, createFlightEffects, projectTiltedCorners } from '../src/flightEffect';
+
+const close = (actual: number, expected: number) => assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} != ${expected}`);
+
+test('the card is on the ground at both ends and highest halfway', () => {
+  const start = computeFlightPose(0, 1, 0);
+  const apex = computeFlightPose(0.5, 1, 0, { lift: 0.5, shadowX: 10, shadowY: 20 });
+  const end = computeFlightPose(1, 1, 0);
+
+  assert.equal(start.scale, 1);
+  close(end.height, 0);
+  close(apex.scale, 1.5);
+  close(apex.shadowX, 10);
+  close(apex.shadowY, 20);
+  // Nose up at the start, level at the apex, nose down at the end
+  assert.ok(start.tilt > 0);
+  close(apex.tilt, 0);
+  assert.ok(end.tilt < 0);
+  // Rolls toward the travel direction
+  assert.ok(computeFlightPose(0.5, -1, 0).roll < 0);
+});
+
+test('an untilted card projects to a plain rectangle', () => {
+  assert.deepEqual(projectTiltedCorners(100, 50, 0, 1, 0, 600), [-50, -25, 50, -25, 50, 25, -50, 25]);
+});
+
+test('tilting lifts the leading edge toward the eye', () => {
+  const [x0, y0, x1, y1, , y2, , y3] = projectTiltedCorners(100, 50, 0.5, 1, 0, 600);
+  // Moving right, the right edge is closer and taller than the left one
+  assert.ok(y2 - y1 > y3 - y0);
+  // and the card is shortened along the path
+  assert.ok(x1 - x0 < 110);
+});
+
+test('an applied effect hides the sprite behind a mesh and shadow until destroyed', () => {
+  const parent = new Container();
+  const sprite = new Sprite(Texture.WHITE);
+  sprite.anchor.set(0.5);
+  parent.addChild(sprite);
+
+  // Blur filters need a browser
+  const effects = createFlightEffects({ shadowBlur: 0 });
+  const effect = effects.apply(sprite, { x: 0, y: 0 }, { x: 100, y: 0 });
+  effect.update(0.5);
+  assert.equal(sprite.visible, false);
+  assert.equal(parent.children.length, 3);
+  assert.ok(parent.children[2] instanceof PerspectiveMesh);
+  assert.equal(parent.getChildIndex(sprite), 1);
+
+  effect.destroy();
+  assert.equal(sprite.visible, true);
+  assert.deepEqual(parent.children, [sprite]);
+  effects.destroy();
+});
@@ -0,0 +1,11 @@
+import { KeyValueStorage } from '../../src/storage';
+
+// Storage kept in a map, data shows what was saved
+export function createMemoryStorage(initial: Record<string, string> = {}): KeyValueStorage & { data: Map<string, string> } {
+  const data = new Map(Object.entries(initial));
+  return {
+    data,
+    getItem: key => data.get(key) ?? null,
+    setItem: (key, value) => void data.set(key, value)
+  };
+}
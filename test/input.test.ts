@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GamepadState, createGamepadReader, keyCommand, pickFocus } from '../src/inputCommands';
+
+// Gamepad with the given standard mapping buttons held
+function gamepad(held: number[], index = 0): GamepadState {
+  return { index, buttons: Array.from({ length: 16 }, (_, button) => ({ pressed: held.includes(button) })) };
+}
+
+test('a held gamepad button fires once, when it goes down', () => {
+  const reader = createGamepadReader();
+  assert.deepEqual(reader.poll([gamepad([0])]), [{ type: 'activate' }]);
+  assert.deepEqual(reader.poll([gamepad([0])]), []);
+  assert.deepEqual(reader.poll([gamepad([0])]), []);
+
+  // The D-pad joins while A is still held
+  assert.deepEqual(reader.poll([gamepad([0, 13])]), [{ type: 'move', direction: 'down' }]);
+  assert.deepEqual(reader.poll([gamepad([0, 13])]), []);
+
+  // Released and pressed again
+  assert.deepEqual(reader.poll([gamepad([])]), []);
+  assert.deepEqual(reader.poll([gamepad([0])]), [{ type: 'activate' }]);
+});
+
+test('gamepads are tracked apart and empty slots are skipped', () => {
+  const reader = createGamepadReader();
+  assert.deepEqual(reader.poll([null, gamepad([14], 1)]), [{ type: 'move', direction: 'left' }]);
+  assert.deepEqual(reader.poll([gamepad([14], 0), gamepad([14], 1)]), [{ type: 'move', direction: 'left' }]);
+  // Other buttons do nothing
+  assert.deepEqual(reader.poll([gamepad([3], 2)]), []);
+});
+
+test('keys map to focus moves, activation, back and menu shortcuts', () => {
+  const key = (name: string, shiftKey = false, repeat = false) => keyCommand({ key: name, shiftKey, repeat });
+  assert.deepEqual(key('ArrowUp'), { type: 'move', direction: 'up' });
+  assert.deepEqual(key('Tab'), { type: 'move', direction: 'next' });
+  assert.deepEqual(key('Tab', true), { type: 'move', direction: 'previous' });
+  assert.deepEqual(key('Enter'), { type: 'activate' });
+  assert.deepEqual(key(' '), { type: 'activate' });
+  assert.equal(key('Enter', false, true), null);
+  assert.deepEqual(key('Escape'), { type: 'back' });
+  assert.deepEqual(key('3'), { type: 'jump', position: 3 });
+  assert.equal(key('0'), null);
+  assert.equal(key('a'), null);
+});
+
+test('Tab order wraps around and a missing focus starts at the first button', () => {
+  const buttons = ['play', 'settings', 'back'];
+  const nowhere = () => null;
+  assert.equal(pickFocus(buttons, null, 'next', nowhere), 'play');
+  assert.equal(pickFocus(buttons, 'gone', 'previous', nowhere), 'play');
+  assert.equal(pickFocus(buttons, 'settings', 'next', nowhere), 'back');
+  assert.equal(pickFocus(buttons, 'back', 'next', nowhere), 'play');
+  assert.equal(pickFocus(buttons, 'play', 'previous', nowhere), 'back');
+  assert.equal(pickFocus([], null, 'next', nowhere), null);
+
+  // Arrows ask for the nearest button in that direction
+  const asked: string[] = [];
+  const below = (from: string, direction: string) => {
+    asked.push(`${from} ${direction}`);
+    return direction === 'down' ? 'back' : null;
+  };
+  assert.equal(pickFocus(buttons, 'play', 'down', below), 'back');
+  assert.equal(pickFocus(buttons, 'play', 'up', below), null);
+  assert.deepEqual(asked, ['play down', 'play up']);
+});
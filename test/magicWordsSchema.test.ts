@@ -0,0 +1,131 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkMagicWordsReferences, findEmojiNames, validateMagicWordsData } from '../src/simulation/magicWordsSchema';
+
+const payload = {
+  dialogue: [
+    { name: 'Sheldon', text: 'Hello {satisfied}' },
+    { name: 'Penny', text: '' }
+  ],
+  emojies: [{ name: 'satisfied', url: 'https://example.com/satisfied.png' }],
+  avatars: [{ name: 'Sheldon', url: 'https://example.com/sheldon.png', position: 'left' as const }]
+};
+
+test('a valid payload passes without issues', () => {
+  const result = validateMagicWordsData(payload);
+  assert.deepEqual(result.issues, []);
+  assert.deepEqual(result.data, payload);
+});
+
+test('images may be given by a relative path', () => {
+  const result = validateMagicWordsData({
+    ...payload,
+    emojies: [{ name: 'satisfied', url: './assets/magic/satisfied.png' }, { name: 'sad', url: 'javascript:alert(1)' }]
+  });
+  assert.deepEqual(result.issues.map(issue => issue.path), ['$.emojies[1].url']);
+  assert.deepEqual(result.data?.emojies, [{ name: 'satisfied', url: './assets/magic/satisfied.png' }]);
+});
+
+test('broken entries are reported by JSON path and left out', () => {
+  const result = validateMagicWordsData({
+    dialogue: [{ name: 'Sheldon', text: 'Hi' }, { name: '', text: 'Hm' }, 'oops', { name: 'Amy', text: 42 }],
+    emojies: [{ name: 'sad', url: 'not a url' }],
+    avatars: [{ name: 'Amy', url: 'https://example.com/amy.png', position: 'top' }]
+  });
+  assert.deepEqual(result.issues.map(issue => [issue.path, issue.severity]), [
+    ['$.dialogue[1].name', 'error'],
+    ['$.dialogue[2]', 'error'],
+    ['$.dialogue[3].text', 'error'],
+    ['$.emojies[0].url', 'error'],
+    ['$.avatars[0].position', 'warning']
+  ]);
+  assert.deepEqual(result.data?.dialogue, [{ name: 'Sheldon', text: 'Hi' }]);
+  assert.deepEqual(result.data?.emojies, []);
+  // A bad position only drops the position
+  assert.deepEqual(result.data?.avatars, [{ name: 'Amy', url: 'https://example.com/amy.png' }]);
+});
+
+test('a payload without a dialogue list is unusable', () => {
+  assert.deepEqual(validateMagicWordsData([1, 2]), {
+    data: null,
+    issues: [{ path: '$', message: 'expected an object, got an array', severity: 'error' }]
+  });
+  const result = validateMagicWordsData({ dialogue: 'hi' });
+  assert.equal(result.data, null);
+  assert.deepEqual(result.issues.map(issue => issue.path), ['$.dialogue']);
+});
+
+test('old field names are pointed out instead of guessed at', () => {
+  const result = validateMagicWordsData({
+    dialogues: [],
+    emojis: []
+  });
+  assert.equal(result.data, null);
+  assert.deepEqual(result.issues.map(issue => issue.message), [
+    'missing, found "dialogues" which is no longer read',
+    'missing, found "emojis" which is no longer read'
+  ]);
+
+  const lines = validateMagicWordsData({ dialogue: [{ character: 'Leonard', text: 'Hey' }] });
+  assert.deepEqual(lines.issues[0], {
+    path: '$.dialogue[0].name',
+    message: 'missing, found "character" which is no longer read',
+    severity: 'error'
+  });
+});
+
+test('references to missing avatars and emojis are warnings', () => {
+  assert.deepEqual(findEmojiNames('{a} and {b_2}'), ['a', 'b_2']);
+  const issues = checkMagicWordsReferences({
+    ...payload,
+    dialogue: [...payload.dialogue, { name: 'Penny', text: '{win}' }]
+  });
+  assert.deepEqual(issues, [
+    { path: '$.dialogue[1].name', message: 'no avatar for "Penny"', severity: 'warning' },
+    { path: '$.dialogue[2].text', message: 'unknown emoji "{win}"', severity: 'warning' }
+  ]);
+});
+
+test('a dialogue graph is checked node by node', () => {
+  const result = validateMagicWordsData({
+    dialogue: {
+      start: 'a',
+      variables: { trust: 0, bad: [] },
+      nodes: {
+        a: {
+          lines: [{ name: 'Sheldon', text: 'Hi {wave}', if: { trust: { '>': 'x' } } }, { name: 'Penny', text: 'Hey' }],
+          choices: [{ text: 'Go', goto: 'b', set: { trust: { add: 1 } } }, { text: 'Nowhere', goto: 'z' }]
+        },
+        b: { next: [{ goto: 'a', if: { trust: { '>=': 2 } } }], end: 'Done' },
+        lost: { end: 'Never' }
+      }
+    }
+  });
+  assert.deepEqual(result.issues.map(issue => [issue.path, issue.severity]), [
+    ['$.dialogue.variables.bad', 'error'],
+    ['$.dialogue.nodes.a.lines[0].if.trust', 'error'],
+    ['$.dialogue.nodes.a.choices[1].goto', 'error'],
+    ['$.dialogue.nodes.lost', 'warning']
+  ]);
+  assert.deepEqual(result.data?.dialogue, {
+    start: 'a',
+    variables: { trust: 0 },
+    nodes: {
+      a: { lines: [{ name: 'Penny', text: 'Hey' }], choices: [{ text: 'Go', goto: 'b', set: { trust: { add: 1 } } }] },
+      b: { next: [{ goto: 'a', if: { trust: { '>=': 2 } } }], end: 'Done' },
+      lost: { end: 'Never' }
+    }
+  });
+
+  const noStart = validateMagicWordsData({ dialogue: { start: 'x', nodes: { a: {} } } });
+  assert.equal(noStart.data, null);
+  assert.deepEqual(noStart.issues.map(issue => issue.message), ['unknown node "x"']);
+});
+
+test('graph lines and choices are checked for references by node path', () => {
+  const issues = checkMagicWordsReferences({
+    ...payload,
+    dialogue: { start: 'a', nodes: { a: { lines: [{ name: 'Amy', text: 'Hi' }], choices: [{ text: '{win}' }] } } }
+  });
+  assert.deepEqual(issues.map(issue => issue.path), ['$.dialogue.nodes.a.lines[0].name', '$.dialogue.nodes.a.choices[0].text']);
+});
@@ -0,0 +1,81 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createManualClock, createSeededRandom } from '../src/simulation/core';
+import { FireParticle, ParticleType, createParticleSystem } from '../src/simulation/particleModel';
+
+function createTestSystem(maxParticles: number) {
+  const clock = createManualClock();
+  const spawned: FireParticle[] = [];
+  const despawned: FireParticle[] = [];
+  const system = createParticleSystem({
+    maxParticles,
+    baseSpawnInterval: 0.1,
+    sparkSpawnInterval: 0.1,
+    emitterX: 0,
+    emitterY: 0,
+    clock,
+    random: createSeededRandom(7),
+    onSpawn: particle => spawned.push(particle),
+    onDespawn: particle => despawned.push(particle)
+  });
+  return { clock, system, spawned, despawned };
+}
+
+// Run the system at 60 fps for the given number of seconds
+function run(clock: { advance(ms: number): void }, system: { update(): void }, seconds: number, check?: () => void) {
+  for (let frame = 0; frame < seconds * 60; frame++) {
+    clock.advance(1000 / 60);
+    system.update();
+    check?.();
+  }
+}
+
+test('never exceeds the particle budget', () => {
+  for (const budget of [1, 3, 10]) {
+    const { clock, system } = createTestSystem(budget);
+    run(clock, system, 10, () => {
+      assert.ok(system.particles.length <= budget, `${system.particles.length} particles with a budget of ${budget}`);
+    });
+  }
+});
+
+test('keeps each particle type under its own cap', () => {
+  const { clock, system } = createTestSystem(100);
+  run(clock, system, 10, () => {
+    assert.equal(system.getCount(ParticleType.FLAME), 1);
+    assert.ok(system.getCount(ParticleType.BASE) <= 3);
+    assert.ok(system.getCount(ParticleType.SPARK) <= 4);
+  });
+});
+
+test('type counts match the live particles', () => {
+  const { clock, system } = createTestSystem(10);
+  run(clock, system, 5);
+  for (const type of [ParticleType.BASE, ParticleType.FLAME, ParticleType.SPARK]) {
+    assert.equal(system.getCount(type), system.particles.filter(p => p.type === type).length);
+  }
+});
+
+test('a budget of one keeps only the flame tongue', () => {
+  const { clock, system } = createTestSystem(1);
+  run(clock, system, 5);
+  assert.equal(system.particles.length, 1);
+  assert.equal(system.particles[0].type, ParticleType.FLAME);
+});
+
+test('clear despawns every particle', () => {
+  const { clock, system, spawned, despawned } = createTestSystem(10);
+  run(clock, system, 5);
+  system.clear();
+  assert.equal(system.particles.length, 0);
+  assert.equal(spawned.length, despawned.length);
+  assert.equal(system.getCount(ParticleType.FLAME), 0);
+});
+
+test('the same seed gives the same simulation', () => {
+  const first = createTestSystem(10);
+  const second = createTestSystem(10);
+  run(first.clock, first.system, 3);
+  run(second.clock, second.system, 3);
+  assert.deepEqual(first.system.particles, second.system.particles);
+});
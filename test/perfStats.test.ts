@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getTickerTimings, profileTicker, summarizeFrameTimes } from '../src/perfStats';
+
+test('summarizes min, avg and max frame times', () => {
+  const stats = summarizeFrameTimes([10, 20, 30]);
+  assert.equal(stats.min, 10);
+  assert.equal(stats.avg, 20);
+  assert.equal(stats.max, 30);
+});
+
+test('1% low is the FPS of the slowest 1% of frames', () => {
+  const samples = new Array(200).fill(10);
+  samples[50] = 50;
+  samples[150] = 100;
+  // Two slowest frames average 75ms
+  assert.equal(summarizeFrameTimes(samples).low1, 1000 / 75);
+});
+
+test('a short sample still counts its slowest frame', () => {
+  assert.equal(summarizeFrameTimes([10, 40, 20]).low1, 25);
+});
+
+test('no samples give zeros', () => {
+  assert.deepEqual(summarizeFrameTimes([]), { min: 0, avg: 0, max: 0, low1: 0 });
+});
+
+test('profiled tickers run and report their timing until they stop', () => {
+  let calls = 0;
+  const ticker = profileTicker('test/ticker', () => calls++);
+  ticker();
+  assert.equal(calls, 1);
+
+  const timing = getTickerTimings().find(t => t.name === 'test/ticker');
+  assert.ok(timing);
+  assert.ok(timing.avgMs >= 0);
+
+  // Not run for longer than the age limit
+  assert.equal(getTickerTimings(500, timing.lastRun + 1000).some(t => t.name === 'test/ticker'), false);
+});
@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { computePileLayout } from '../src/cards/pileLayout';
+
+const area = { x: 0, y: 0, width: 1200, height: 600 };
+const cards = { cardWidth: 100, cardHeight: 150, maxPileSize: 11, stackOffset: 1 };
+
+test('row places piles side by side at the same height', () => {
+  const { positions, stackOffset, scale } = computePileLayout('row', 3, area, cards);
+  assert.equal(scale, 1);
+  assert.deepEqual(stackOffset, { x: 1, y: 1 });
+  // Cell centers minus half the stack extent
+  assert.deepEqual(positions.map(p => p.x), [195, 595, 995]);
+  assert.ok(positions.every(p => p.y === 295));
+});
+
+test('grid uses rows and columns', () => {
+  const { positions } = computePileLayout('grid', 4, area, cards);
+  const rows = new Set(positions.map(p => p.y));
+  const columns = new Set(positions.map(p => p.x));
+  assert.equal(rows.size, 2);
+  assert.equal(columns.size, 2);
+});
+
+test('tableau fans piles downwards from the top', () => {
+  const { positions, stackOffset } = computePileLayout('tableau', 4, area, cards);
+  assert.equal(stackOffset.x, 0);
+  assert.ok(stackOffset.y > 1);
+  assert.ok(positions.every(p => p.y === positions[0].y && p.y < area.height / 2));
+
+  // A full pile stays inside the area
+  const bottom = positions[0].y + stackOffset.y * (cards.maxPileSize - 1) + cards.cardHeight / 2;
+  assert.ok(bottom <= area.height);
+});
+
+test('cards shrink when piles do not fit', () => {
+  const { scale } = computePileLayout('row', 8, area, { ...cards, cardWidth: 300 });
+  assert.ok(scale < 1);
+  assert.ok(scale * 300 <= area.width / 8);
+});
@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createScrollState } from '../src/scrollPanel';
+
+test('the wheel and scrollTo stay within the content', () => {
+  const scroll = createScrollState();
+  scroll.setSize(1000, 300);
+  assert.equal(scroll.maxOffset, 700);
+  scroll.wheel(-50);
+  assert.equal(scroll.offset, 0);
+  scroll.wheel(250);
+  assert.equal(scroll.offset, 250);
+  scroll.scrollTo(5000);
+  assert.equal(scroll.offset, 700);
+
+  // Content shorter than the view does not scroll
+  scroll.setSize(100, 300);
+  assert.equal(scroll.offset, 0);
+});
+
+test('a flick keeps gliding after release and slows down', () => {
+  const scroll = createScrollState({ friction: 0.9 });
+  scroll.setSize(5000, 300);
+  scroll.dragStart(400, 0);
+  scroll.dragMove(300, 50);
+  assert.equal(scroll.offset, 100);
+  assert.equal(scroll.dragEnd(50), 100);
+  assert.equal(scroll.isMoving, true);
+
+  const positions: number[] = [];
+  for (let i = 0; i < 5; i++) {
+    scroll.update(1000 / 60);
+    positions.push(scroll.offset);
+  }
+  const steps = positions.map((offset, i) => offset - (i === 0 ? 100 : positions[i - 1]));
+  assert.ok(steps.every(step => step > 0));
+  assert.ok(steps[4] < steps[0]);
+
+  // It comes to rest eventually
+  for (let i = 0; i < 500; i++) scroll.update(1000 / 60);
+  assert.equal(scroll.isMoving, false);
+});
+
+test('pulling past an end resists and springs back', () => {
+  const scroll = createScrollState({ resistance: 0.5 });
+  scroll.setSize(1000, 300);
+  scroll.dragStart(100, 0);
+  scroll.dragMove(200, 500);
+  assert.equal(scroll.offset, -50);
+  // A slow release does not glide
+  scroll.dragEnd(1000);
+  for (let i = 0; i < 60; i++) scroll.update(1000 / 60);
+  assert.equal(scroll.offset, 0);
+  assert.equal(scroll.isMoving, false);
+});
+
+test('a press that barely moves reports a short distance', () => {
+  const scroll = createScrollState();
+  scroll.setSize(1000, 300);
+  scroll.dragStart(100, 0);
+  scroll.dragMove(98, 30);
+  assert.equal(scroll.dragEnd(60), 2);
+});
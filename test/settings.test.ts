@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Container } from 'pixi.js';
+import { DEFAULT_SETTINGS, Settings, createSettingsService } from '../src/settings';
+import { createMemoryStorage } from './helpers/memoryStorage';
+
+function storedSettings(storage: { data: Map<string, string> }): Partial<Settings> {
+  return JSON.parse([...storage.data.values()][0]);
+}
+
+test('starts from the defaults when nothing is stored', () => {
+  const settings = createSettingsService(createMemoryStorage());
+  assert.deepEqual(settings.getAll(), DEFAULT_SETTINGS);
+});
+
+test('works without storage', () => {
+  const settings = createSettingsService(null);
+  settings.set('showFps', false);
+  assert.equal(settings.get('showFps'), false);
+});
+
+test('persists changes and restores them', () => {
+  const storage = createMemoryStorage();
+  createSettingsService(storage).set('textScale', 1.25);
+  assert.equal(storedSettings(storage).textScale, 1.25);
+  assert.equal(createSettingsService(storage).get('textScale'), 1.25);
+});
+
+test('ignores unreadable and mistyped stored values', () => {
+  const broken = createMemoryStorage({ 'pixi-demo-settings': '{not json' });
+  assert.deepEqual(createSettingsService(broken).getAll(), DEFAULT_SETTINGS);
+
+  const mistyped = createMemoryStorage({
+    'pixi-demo-settings': JSON.stringify({ showFps: 'yes', masterVolume: 7, textScale: null, unknown: 1 })
+  });
+  const settings = createSettingsService(mistyped);
+  assert.equal(settings.get('showFps'), DEFAULT_SETTINGS.showFps);
+  assert.equal(settings.get('masterVolume'), 1);
+  assert.equal(settings.get('textScale'), DEFAULT_SETTINGS.textScale);
+  assert.equal('unknown' in settings.getAll(), false);
+});
+
+test('step moves by the range step and stays in range', () => {
+  const settings = createSettingsService(null);
+  settings.set('masterVolume', 0.2);
+  settings.step('masterVolume', 1);
+  assert.equal(settings.get('masterVolume'), 0.3);
+
+  for (let i = 0; i < 20; i++) settings.step('masterVolume', -1);
+  assert.equal(settings.get('masterVolume'), 0);
+});
+
+test('onChange calls the handler now and on every change until the owner is destroyed', () => {
+  const settings = createSettingsService(null);
+  const owner = new Container();
+  const seen: boolean[] = [];
+  settings.onChange(owner, current => seen.push(current.reducedMotion));
+
+  settings.set('reducedMotion', true);
+  // Setting the same value again does not notify
+  settings.set('reducedMotion', true);
+  owner.destroy();
+  settings.set('reducedMotion', false);
+
+  assert.deepEqual(seen, [false, true]);
+});
+
+test('reset restores the defaults the service was created with', () => {
+  const settings = createSettingsService(null, { ...DEFAULT_SETTINGS, reducedMotion: true });
+  settings.set('reducedMotion', false);
+  settings.reset();
+  assert.equal(settings.get('reducedMotion'), true);
+});
@@ -0,0 +1,33 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createSeededRandom } from '../src/simulation/core';
+import { riffleShuffle, shuffle } from '../src/simulation/shuffle';
+import { STANDARD_DECK, cardLabel, faceForCard } from '../src/cards/playingCards';
+
+const items = Array.from({ length: 52 }, (_, i) => i);
+
+test('shuffle returns a permutation and leaves the input alone', () => {
+  const result = shuffle(items, createSeededRandom(1));
+  assert.notDeepEqual(result, items);
+  assert.deepEqual([...result].sort((a, b) => a - b), items);
+  assert.equal(items[0], 0);
+});
+
+test('the same seed gives the same order', () => {
+  assert.deepEqual(shuffle(items, createSeededRandom(7)), shuffle(items, createSeededRandom(7)));
+  assert.deepEqual(riffleShuffle(items, createSeededRandom(7)), riffleShuffle(items, createSeededRandom(7)));
+});
+
+test('riffle keeps the order within each half', () => {
+  const { items: result, cut } = riffleShuffle(items, createSeededRandom(3));
+  assert.deepEqual([...result].sort((a, b) => a - b), items);
+  assert.deepEqual(result.filter(item => item < cut), items.slice(0, cut));
+  assert.deepEqual(result.filter(item => item >= cut), items.slice(cut));
+});
+
+test('the standard deck has 52 unique faces and ids wrap around', () => {
+  assert.equal(new Set(STANDARD_DECK.map(cardLabel)).size, 52);
+  assert.equal(cardLabel(faceForCard(0)), 'A♠');
+  assert.equal(faceForCard(52), faceForCard(0));
+  assert.equal(cardLabel(faceForCard(14)), '2♥');
+});
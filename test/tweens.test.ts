@@ -0,0 +1,130 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  bezier,
+  call,
+  createTweenManager,
+  easings,
+  parallel,
+  path,
+  pointOnPath,
+  sequence,
+  tween,
+  wait
+} from '../src/tweens';
+
+test('easings start at 0 and end at 1', () => {
+  Object.entries(easings).forEach(([name, ease]) => {
+    assert.ok(Math.abs(ease(0)) < 1e-9, `${name}(0)`);
+    assert.ok(Math.abs(ease(1) - 1) < 1e-9, `${name}(1)`);
+  });
+  assert.ok(easings.backOut(0.5) > easings.quadOut(0.5));
+  assert.ok(easings.backIn(0.2) < 0, 'back overshoots below the start');
+});
+
+test('a tween reads its start value on the first render', () => {
+  const target = { x: 10, scale: { x: 1 } };
+  const animation = tween(target, { x: 20, 'scale.x': 2 }, { duration: 100 });
+  target.x = 0;
+  animation.render(50);
+  assert.equal(target.x, 10);
+  assert.equal(target.scale.x, 1.5);
+  animation.render(100);
+  assert.deepEqual(target, { x: 20, scale: { x: 2 } });
+});
+
+test('a path that does not lead to a number fails instead of tweening NaN', () => {
+  const target = { x: 10, label: 'card', scale: { x: 1 } };
+  assert.throws(() => tween(target, { y: 5 }, { duration: 100 }).render(50), /"y": expected a number, got undefined/);
+  assert.throws(() => tween(target, { label: 5 }, { duration: 100 }).render(50), /"label": expected a number, got string/);
+  assert.throws(() => tween(target, { 'pivot.x': 5 }, { duration: 100 }).render(50), /"pivot" is not an object/);
+  // Destroyed targets are skipped
+  const destroyed = { x: 0, destroyed: true };
+  tween(destroyed, { x: 5 }, { duration: 100 }).render(100);
+  assert.equal(destroyed.x, 0);
+});
+
+test('delay, repeat and yoyo', () => {
+  const target = { x: 5 };
+  const animation = tween(target, { x: 100 }, { duration: 100, delay: 50, repeat: 2, yoyo: true, from: { x: 0 } });
+  assert.equal(animation.duration, 350);
+
+  animation.render(25);
+  assert.equal(target.x, 5, 'untouched during the delay');
+  animation.render(100);
+  assert.equal(target.x, 50);
+  animation.render(175);
+  assert.equal(target.x, 75, 'second run plays backwards');
+  animation.render(350);
+  assert.equal(target.x, 100);
+});
+
+test('sequence runs children in turn and can play backwards', () => {
+  const target = { x: 0 };
+  const calls: string[] = [];
+  const animation = sequence([
+    tween(target, { x: 100 }, { duration: 100 }),
+    call(() => calls.push('halfway')),
+    wait(50),
+    tween(target, { x: 200 }, { duration: 100 })
+  ]);
+  assert.equal(animation.duration, 250);
+
+  animation.render(120);
+  assert.equal(target.x, 100);
+  assert.deepEqual(calls, ['halfway']);
+  animation.render(200);
+  assert.equal(target.x, 150);
+  animation.render(50);
+  assert.equal(target.x, 50);
+  assert.deepEqual(calls, ['halfway']);
+});
+
+test('parallel lasts as long as its longest child', () => {
+  const a = { x: 0 };
+  const b = { y: 0 };
+  const animation = parallel([tween(a, { x: 10 }, { duration: 100 }), tween(b, { y: 10 }, { duration: 200 })]);
+  assert.equal(animation.duration, 200);
+  animation.render(150);
+  assert.equal(a.x, 10);
+  assert.equal(b.y, 7.5);
+});
+
+test('bezier and path motion', () => {
+  const target = { x: 0, y: 0 };
+  bezier(target, [{ x: 0, y: 0 }, { x: 50, y: -100 }, { x: 100, y: 0 }], { duration: 100 }).render(50);
+  assert.deepEqual(target, { x: 50, y: -50 });
+
+  path(target, [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }], { duration: 100 }).render(75);
+  assert.deepEqual(target, { x: 100, y: 50 });
+  assert.deepEqual(pointOnPath([{ x: 3, y: 4 }], 0.5), { x: 3, y: 4 });
+});
+
+test('the manager resolves finished tweens and kills by owner', async () => {
+  const tweens = createTweenManager();
+  const target = { x: 0 };
+  const other = { x: 0 };
+  const handle = tweens.to(target, { x: 10 }, { duration: 100 });
+  const killed = tweens.to(other, { x: 10 }, { duration: 100 });
+  const forever = tweens.play(tween(other, { x: 5 }, { duration: 10, repeat: -1 }));
+  assert.equal(tweens.count, 3);
+
+  tweens.update(60);
+  tweens.killTweensOf(other);
+  assert.equal(killed.isActive, false);
+  assert.equal(forever.isActive, true);
+  tweens.update(60);
+  assert.equal(target.x, 10);
+  assert.equal(await handle.finished, true);
+  assert.equal(await killed.finished, false);
+
+  tweens.killAll();
+  assert.equal(tweens.count, 0);
+  assert.equal(await forever.finished, false);
+});
+
+test('destroyed targets are not written', () => {
+  const target = { x: 0, destroyed: true };
+  tween(target, { x: 10 }, { duration: 10 }).render(10);
+  assert.equal(target.x, 0);
+});
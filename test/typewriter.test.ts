@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTypewriter } from '../src/simulation/typewriter';
+
+test('characters appear one step apart and the line completes after the last one', () => {
+  const writer = createTypewriter([{ type: 'text', text: 'Hey' }], { charsPerSecond: 10, pauses: {} });
+  let completed = 0;
+  writer.onComplete(() => completed++);
+
+  assert.equal(writer.visibleChars(0), 1);
+  writer.update(100);
+  assert.equal(writer.visibleChars(0), 2);
+  assert.equal(writer.done, false);
+  writer.update(100);
+  assert.equal(writer.visibleChars(0), 3);
+  assert.equal(writer.done, true);
+  assert.equal(completed, 1);
+});
+
+test('punctuation pauses only where it ends a word', () => {
+  const pauses = { '.': 500 };
+  const decimal = createTypewriter([{ type: 'text', text: '3.5' }], { charsPerSecond: 10, pauses });
+  decimal.update(200);
+  assert.equal(decimal.visibleChars(0), 3);
+
+  const sentence = createTypewriter([{ type: 'text', text: 'No. Yes' }], { charsPerSecond: 10, pauses });
+  sentence.update(300);
+  assert.equal(sentence.visibleChars(0), 3);
+  // The space waits for the pause after the full stop
+  sentence.update(400);
+  assert.equal(sentence.visibleChars(0), 3);
+  sentence.update(100);
+  assert.equal(sentence.visibleChars(0), 4);
+});
+
+test('emojis pop in as one step and complete shows everything', () => {
+  const writer = createTypewriter(
+    [{ type: 'text', text: 'Hi' }, { type: 'emoji' }, { type: 'text', text: 'there' }],
+    { charsPerSecond: 10, emojiPopMs: 200, pauses: {} }
+  );
+  writer.update(200);
+  assert.equal(writer.emojiProgress(1), 0);
+  writer.update(100);
+  assert.equal(writer.emojiProgress(1), 0.5);
+  assert.equal(writer.visibleChars(2), 1);
+
+  let completed = false;
+  writer.onComplete(() => completed = true);
+  writer.complete();
+  assert.equal(writer.visibleChars(2), 5);
+  assert.equal(writer.emojiProgress(1), 1);
+  assert.equal(completed, true);
+});
+
+test('no typing speed and empty lines are complete right away', () => {
+  assert.equal(createTypewriter([{ type: 'text', text: 'Hello' }], { charsPerSecond: 0 }).done, true);
+  assert.equal(createTypewriter([]).done, true);
+
+  let called = false;
+  createTypewriter([]).onComplete(() => called = true);
+  assert.equal(called, true);
+});
@@ -0,0 +1,113 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createSeededRandom } from '../src/simulation/core';
+import { WAR_FACE_DOWN, createWarGame, warCardValue } from '../src/simulation/warModel';
+
+// Card ids of the spades, 0 is the ace and 12 the king
+const ACE = 0;
+const TWO = 1;
+const FIVE = 4;
+const KING = 12;
+
+test('the deck is dealt evenly and the player starts', () => {
+  const game = createWarGame({ random: createSeededRandom(1) });
+  assert.equal(game.piles.player.length, 26);
+  assert.equal(game.piles.opponent.length, 26);
+  assert.equal(new Set([...game.piles.player, ...game.piles.opponent]).size, 52);
+  assert.equal(game.turn, 'player');
+  assert.equal(game.status, 'playing');
+});
+
+test('aces are high', () => {
+  assert.ok(warCardValue(ACE) > warCardValue(KING));
+  assert.ok(warCardValue(KING) > warCardValue(TWO));
+  assert.equal(warCardValue(ACE + 13), warCardValue(ACE));
+});
+
+test('turns go player, opponent, resolve', () => {
+  const game = createWarGame({ random: createSeededRandom(1), deal: { player: [TWO, KING], opponent: [FIVE, TWO + 13] } });
+  assert.equal(game.play('opponent'), null);
+  assert.equal(game.resolve(), null);
+
+  assert.deepEqual(game.play('player'), { side: 'player', faceDown: [], faceUp: KING });
+  assert.equal(game.play('player'), null);
+  assert.deepEqual(game.play('opponent'), { side: 'opponent', faceDown: [], faceUp: TWO + 13 });
+  assert.equal(game.turn, 'resolve');
+});
+
+test('the higher card takes the trick to the bottom of the pile', () => {
+  const game = createWarGame({ random: createSeededRandom(1), deal: { player: [TWO, KING], opponent: [FIVE, TWO + 13] } });
+  game.play('player');
+  game.play('opponent');
+  const trick = game.resolve()!;
+
+  assert.equal(trick.winner, 'player');
+  assert.deepEqual([...trick.collected].sort((a, b) => a - b), [KING, TWO + 13]);
+  assert.deepEqual(game.piles.player, [...trick.collected, TWO]);
+  assert.deepEqual(game.table.player, []);
+  assert.equal(game.tricksWon.player, 1);
+  assert.equal(game.tricks, 1);
+  assert.equal(game.turn, 'player');
+});
+
+test('a tie starts a war with face-down cards', () => {
+  const player = [ACE, TWO, TWO, TWO, FIVE + 13];
+  const opponent = [KING, FIVE, FIVE, FIVE, FIVE + 26];
+  const game = createWarGame({ random: createSeededRandom(1), deal: { player, opponent } });
+  game.play('player');
+  game.play('opponent');
+  assert.deepEqual(game.resolve(), { winner: null, collected: [] });
+  assert.equal(game.wars, 1);
+
+  const play = game.play('player')!;
+  assert.equal(play.faceDown.length, WAR_FACE_DOWN);
+  assert.equal(play.faceUp, ACE);
+  game.play('opponent');
+  const trick = game.resolve()!;
+  assert.equal(trick.winner, 'player');
+  assert.equal(trick.collected.length, 10);
+  assert.equal(game.wars, 0);
+});
+
+test('a side short of cards for a war plays all it has', () => {
+  const game = createWarGame({ random: createSeededRandom(1), deal: { player: [KING, FIVE], opponent: [TWO, FIVE + 13] } });
+  game.play('player');
+  game.play('opponent');
+  game.resolve();
+
+  assert.deepEqual(game.play('player'), { side: 'player', faceDown: [], faceUp: KING });
+  assert.deepEqual(game.play('opponent'), { side: 'opponent', faceDown: [], faceUp: TWO });
+  assert.equal(game.resolve()!.winner, 'player');
+  assert.equal(game.status, 'won');
+});
+
+test('the side that takes the last card wins', () => {
+  const game = createWarGame({ random: createSeededRandom(1), deal: { player: [TWO], opponent: [KING] } });
+  game.play('player');
+  game.play('opponent');
+  assert.equal(game.resolve()!.winner, 'opponent');
+  assert.equal(game.status, 'lost');
+  assert.equal(game.play('player'), null);
+});
+
+test('the trick limit ends the game by card count', () => {
+  const game = createWarGame({
+    random: createSeededRandom(1),
+    deal: { player: [TWO, TWO + 13, KING], opponent: [FIVE, FIVE + 13] },
+    maxTricks: 1
+  });
+  game.play('player');
+  game.play('opponent');
+  game.resolve();
+  assert.equal(game.status, 'won');
+});
+
+test('restart deals again', () => {
+  const game = createWarGame({ random: createSeededRandom(2) });
+  game.play('player');
+  game.restart();
+  assert.equal(game.piles.player.length + game.piles.opponent.length, 52);
+  assert.deepEqual(game.table.player, []);
+  assert.equal(game.turn, 'player');
+  assert.equal(game.tricks, 0);
+});